@@ -1,44 +1,205 @@
 import type { FetchOptions } from 'ofetch'
+import type { TabSync, TabSyncMessage, TabSyncOptions } from './tabSync'
+import type { TokenStore, TokenStoreName } from './tokenStore'
 
 /**
- * Opsi konfigurasi untuk FetchManager
+ * Hasil mapping response refresh token
  */
-export interface FetchManagerOptions extends Omit<FetchOptions, 'onRequest' | 'onResponse' | 'onResponseError'> {
+export interface RefreshTokenResult {
+  /**
+   * Access token baru
+   */
+  accessToken: string
+
+  /**
+   * Refresh token baru jika server melakukan rotasi
+   */
+  refreshToken?: string | null
+
+  /**
+   * Expiration refresh token baru (epoch detik)
+   */
+  refreshTokenExpiration?: number | string | null
+}
+
+/**
+ * Interceptor request/response, mengikuti hook ofetch.
+ * Dijalankan berurutan sesuai `use()`: `onRequest` setelah header Authorization dipasang,
+ * `onResponseError` sebelum logic refresh 401 bawaan
+ */
+export interface FetchManagerInterceptor {
+  onRequest?: FetchOptions['onRequest']
+  onRequestError?: FetchOptions['onRequestError']
+  onResponse?: FetchOptions['onResponse']
+  onResponseError?: FetchOptions['onResponseError']
+}
+
+/**
+ * State refresh yang dibagi antar instance FetchManager dengan token store yang sama
+ */
+export interface FetchManagerRefreshState {
+  /**
+   * Key token store (getter/saver custom dan store 'memory' memakai instance itu sendiri)
+   */
+  key: unknown
+
+  /**
+   * Refresh yang sedang berjalan
+   */
+  promise: Promise<string> | null
+
+  /**
+   * Instance yang menjadwalkan refresh proaktif
+   */
+  scheduler: FetchManager | null
+
+  /**
+   * Instance yang memakai state ini
+   */
+  managers: Set<FetchManager>
+}
+
+/**
+ * Opsi konfigurasi untuk FetchManager.
+ * Hook `onRequest`, `onRequestError`, `onResponse` dan `onResponseError` dipasang sebagai interceptor
+ * pertama (tidak menggantikan logic auth dan refresh bawaan)
+ */
+export interface FetchManagerOptions
+  extends Omit<FetchOptions, keyof FetchManagerInterceptor>, FetchManagerInterceptor {
   /**
    * URL endpoint untuk refresh token
    * @default '/api/refresh-token'
    */
   refreshTokenUrl?: string
 
+  /**
+   * Storage token yang dipakai default getter/saver dan `clearTokens`:
+   * nama store bawaan atau store custom
+   * @default 'localStorage'
+   */
+  tokenStore?: TokenStoreName | TokenStore
+
+  /**
+   * Prefix key untuk token store bawaan yang dipilih lewat nama
+   * @default ''
+   */
+  tokenPrefix?: string
+
   /**
    * Custom function untuk mendapatkan access token
-   * @default Ambil dari localStorage.getItem('accessToken')
+   * @default Ambil `accessToken` dari token store
    */
   getToken?: () => Promise<string | null> | string | null
 
   /**
    * Custom function untuk menyimpan access token baru
-   * @default Simpan ke localStorage.setItem('accessToken', token)
+   * @default Simpan `accessToken` ke token store
    */
   saveToken?: (token: string) => Promise<void> | void
 
   /**
    * Custom function untuk mendapatkan refresh token
-   * @default Ambil dari localStorage.getItem('refreshToken')
+   * @default Ambil `refreshToken` dari token store
    */
   getRefreshToken?: () => Promise<string | null> | string | null
 
   /**
    * Custom function untuk mendapatkan refresh token expiration
-   * @default Ambil dari localStorage.getItem('refreshTokenExpiration')
+   * @default Ambil `refreshTokenExpiration` dari token store
    */
   getRefreshTokenExpiration?: () => Promise<string | null> | string | null
 
+  /**
+   * Custom function untuk menyimpan refresh token baru (rotasi)
+   * @default Simpan `refreshToken` ke token store
+   */
+  saveRefreshToken?: (refreshToken: string) => Promise<void> | void
+
+  /**
+   * Custom function untuk menyimpan refresh token expiration baru
+   * @default Simpan `refreshTokenExpiration` ke token store
+   */
+  saveRefreshTokenExpiration?: (expiration: number | string) => Promise<void> | void
+
+  /**
+   * HTTP method request refresh
+   * @default 'POST'
+   */
+  refreshMethod?: string
+
+  /**
+   * Headers request refresh, atau function yang menerima refresh token
+   *
+   * @example
+   * ```js
+   * refreshHeaders: (refreshToken) => ({ Authorization: `Bearer ${refreshToken}` })
+   * ```
+   */
+  refreshHeaders?: HeadersInit | ((refreshToken: string | null) => HeadersInit | Promise<HeadersInit>)
+
+  /**
+   * Buat body request refresh dari refresh token. Return undefined untuk request tanpa body
+   * @default (refreshToken) => ({ refreshToken })
+   */
+  buildRefreshBody?: (refreshToken: string | null) => any
+
+  /**
+   * Refresh token disimpan server di cookie httpOnly: request refresh dikirim dengan
+   * `credentials: 'include'`, refresh token tidak dibaca dari storage dan body default kosong
+   * @default false
+   */
+  refreshTokenInCookie?: boolean
+
+  /**
+   * Map response refresh menjadi `{ accessToken, refreshToken?, refreshTokenExpiration? }`.
+   * Semua nilai yang ada disimpan lewat `saveToken`, `saveRefreshToken` dan `saveRefreshTokenExpiration`
+   * @default Ambil `accessToken` / `newAccessToken` / `access_token` / `token`,
+   *   `refreshToken` / `refresh_token` dan `refreshTokenExpiration` / `refresh_token_expiration`
+   *
+   * @example
+   * ```js
+   * parseRefreshResponse: (response) => ({
+   *   accessToken: response.data.jwt,
+   *   refreshToken: response.data.refresh,
+   *   refreshTokenExpiration: response.data.refreshExpiresAt
+   * })
+   * ```
+   */
+  parseRefreshResponse?: (response: any) => RefreshTokenResult | Promise<RefreshTokenResult>
+
+  /**
+   * Custom function untuk mendapatkan expiration access token (epoch detik)
+   * @default Decode claim `exp` dari access token JWT
+   */
+  getAccessTokenExpiration?: (token: string) => Promise<number | string | null> | number | string | null
+
+  /**
+   * Refresh access token secara proaktif sebelum expire (dijadwalkan dari expiration access token).
+   * Scheduler di-pause saat tab tidak terlihat dan dibagi antar instance dengan token store yang sama
+   * @default false
+   */
+  proactiveRefresh?: boolean
+
+  /**
+   * Jumlah detik sebelum access token expire untuk menjalankan refresh proaktif
+   * @default 60
+   */
+  refreshBeforeExpiry?: number
+
+  /**
+   * Koordinasi refresh antar tab: hanya satu tab yang refresh (Web Locks, fallback lock di localStorage),
+   * tab lain menunggu lalu memakai token baru yang dikirim via BroadcastChannel (fallback event `storage`).
+   * Isi object untuk mengatur nama channel/lock dan `lockTimeout`
+   * @default true
+   */
+  crossTabSync?: boolean | Omit<TabSyncOptions, 'onMessage'>
+
   /**
    * Custom function untuk clear semua tokens
    * Dipanggil saat logout atau token refresh gagal
+   * @default Hapus semua token dari token store
    */
-  clearTokens?: () => void
+  clearTokens?: () => void | Promise<void>
 
   /**
    * Callback yang dipanggil saat refresh token gagal
@@ -59,6 +220,13 @@ export interface FetchManagerOptions extends Omit<FetchOptions, 'onRequest' | 'o
   skipRefreshUrls?: string[]
 }
 
+/**
+ * Ambil claim `exp` (epoch detik) dari access token JWT
+ * @param token - Access token
+ * @returns Expiration dalam epoch detik, null jika bukan JWT atau tidak ada `exp`
+ */
+export declare function decodeTokenExpiration(token: string | null | undefined): number | null
+
 /**
  * Class untuk mengelola HTTP requests dengan automatic token refresh
  *
@@ -85,6 +253,16 @@ export class FetchManager {
    */
   refreshTokenUrl: string
 
+  /**
+   * Token store untuk default getter/saver dan `clearTokens`
+   */
+  tokenStore: TokenStore
+
+  /**
+   * Function untuk clear semua tokens
+   */
+  clearTokensFn: () => void | Promise<void>
+
   /**
    * Function untuk mendapatkan token
    */
@@ -105,6 +283,66 @@ export class FetchManager {
    */
   getRefreshTokenExpirationFn: () => Promise<string | null> | string | null
 
+  /**
+   * Function untuk menyimpan refresh token baru
+   */
+  saveRefreshTokenFn: (refreshToken: string) => Promise<void> | void
+
+  /**
+   * Function untuk menyimpan refresh token expiration baru
+   */
+  saveRefreshTokenExpirationFn: (expiration: number | string) => Promise<void> | void
+
+  /**
+   * HTTP method request refresh
+   */
+  refreshMethod: string
+
+  /**
+   * Headers request refresh
+   */
+  refreshHeaders?: FetchManagerOptions['refreshHeaders']
+
+  /**
+   * True jika refresh token ada di cookie httpOnly
+   */
+  refreshTokenInCookie: boolean
+
+  /**
+   * Function untuk membuat body request refresh
+   */
+  buildRefreshBodyFn: (refreshToken: string | null) => any
+
+  /**
+   * Function untuk map response refresh
+   */
+  parseRefreshResponseFn: (response: any) => RefreshTokenResult | Promise<RefreshTokenResult>
+
+  /**
+   * Function untuk mendapatkan expiration access token (epoch detik)
+   */
+  getAccessTokenExpirationFn: (token: string) => Promise<number | string | null> | number | string | null
+
+  /**
+   * True jika refresh proaktif aktif
+   */
+  proactiveRefresh: boolean
+
+  /**
+   * Jumlah detik sebelum expire untuk refresh proaktif
+   */
+  refreshBeforeExpiry: number
+
+  /**
+   * Timer refresh proaktif yang sedang dijadwalkan
+   */
+  refreshTimer: ReturnType<typeof setTimeout> | null
+
+  /**
+   * Channel dan lock antar tab (null jika `crossTabSync` nonaktif atau di server)
+   */
+  tabSync: TabSync | null
+
   /**
    * Callback saat refresh token gagal
    */
@@ -115,6 +353,11 @@ export class FetchManager {
    */
   skipRefreshUrls: string[]
 
+  /**
+   * Interceptor yang terpasang, sesuai urutan eksekusi
+   */
+  interceptors: FetchManagerInterceptor[]
+
   /**
    * Flag untuk track refresh token process
    */
@@ -125,6 +368,12 @@ export class FetchManager {
    */
   refreshPromise: Promise<string> | null
 
+  /**
+   * State refresh yang dibagi antar instance dengan token store yang sama:
+   * refresh yang sedang berjalan dan instance pemilik scheduler proaktif
+   */
+  refreshState: FetchManagerRefreshState
+
   /**
    * Instance ofetch untuk raw requests (tanpa auth interceptor)
    */
@@ -142,57 +391,179 @@ export class FetchManager {
   constructor(baseUrl?: string, options?: FetchManagerOptions)
 
   /**
-   * Default method untuk mendapatkan access token dari localStorage
+   * Default method untuk mendapatkan access token dari token store
    * @returns Access token atau null
    */
   defaultGetToken(): Promise<string | null>
 
   /**
-   * Default method untuk menyimpan access token ke localStorage
+   * Default method untuk menyimpan access token ke token store
    * @param token - Access token yang akan disimpan
    */
   defaultSaveToken(token: string): Promise<void>
 
   /**
-   * Default method untuk mendapatkan refresh token dari localStorage
+   * Default method untuk mendapatkan refresh token dari token store
    * @returns Refresh token atau null
    */
   defaultGetRefreshToken(): Promise<string | null>
 
   /**
-   * Default method untuk mendapatkan refresh token expiration dari localStorage
+   * Default method untuk mendapatkan refresh token expiration dari token store
    * @returns Refresh token expiration atau null
    */
   defaultGetRefreshTokenExpiration(): Promise<string | null>
 
+  /**
+   * Default method untuk menyimpan refresh token baru ke token store
+   * @param refreshToken - Refresh token baru
+   */
+  defaultSaveRefreshToken(refreshToken: string): Promise<void>
+
+  /**
+   * Default method untuk menyimpan refresh token expiration baru ke token store
+   * @param expiration - Expiration dalam epoch detik
+   */
+  defaultSaveRefreshTokenExpiration(expiration: number | string): Promise<void>
+
+  /**
+   * Default body request refresh: `{ refreshToken }`, undefined jika tidak ada refresh token
+   * @param refreshToken - Refresh token
+   */
+  defaultBuildRefreshBody(refreshToken: string | null): { refreshToken: string } | undefined
+
+  /**
+   * Default method untuk mendapatkan expiration access token dari claim `exp` JWT
+   * @param token - Access token
+   * @returns Expiration dalam epoch detik atau null
+   */
+  defaultGetAccessTokenExpiration(token: string): Promise<number | null>
+
+  /**
+   * Jadwalkan refresh `refreshBeforeExpiry` detik sebelum access token expire.
+   * Dipanggil otomatis saat instance dibuat, setelah token baru disimpan dan saat tab kembali terlihat.
+   * Jika instance lain dengan token store yang sama sudah memegang scheduler, jadwal dibuat di instance tersebut
+   */
+  scheduleRefresh(): Promise<void>
+
+  /**
+   * Batalkan refresh proaktif yang sudah dijadwalkan
+   */
+  cancelScheduledRefresh(): void
+
+  /**
+   * Jalankan refresh terjadwal lewat `queuedRefreshToken` lalu simpan token baru
+   */
+  runScheduledRefresh(): Promise<void>
+
+  /**
+   * Simpan token hasil refresh tab lain lalu jadwalkan ulang refresh proaktif
+   * @param message - Pesan dari tab lain (`{ type: 'refreshed', token }`)
+   */
+  handleTabMessage(message: TabSyncMessage): Promise<void>
+
+  /**
+   * Hapus semua token lewat `clearTokens` custom atau token store, hapus hasil refresh yang
+   * dibagikan antar tab, dan batalkan refresh terjadwal
+   */
+  clearTokens(): void | Promise<void>
+
+  /**
+   * Hentikan scheduler refresh, tutup channel antar tab dan lepas listener `visibilitychange`
+   */
+  destroy(): void
+
+  /**
+   * Lepas instance dari state refresh bersama; scheduler diserahkan ke instance lain yang masih aktif
+   */
+  releaseRefreshState(): void
+
+  /**
+   * Tambah interceptor di akhir pipeline
+   * @param interceptor - Hook `onRequest`, `onRequestError`, `onResponse` dan/atau `onResponseError`
+   * @returns Function untuk melepas interceptor
+   *
+   * @example
+   * ```js
+   * const eject = fetchManager.use({
+   *   onRequest: ({ options }) => options.headers.set('X-Request-Id', crypto.randomUUID()),
+   *   onResponseError: ({ response }) => reportError(response.status)
+   * })
+   * eject()
+   * ```
+   */
+  use(interceptor: FetchManagerInterceptor): () => void
+
+  /**
+   * Lepas interceptor dari pipeline
+   * @param interceptor - Interceptor yang sebelumnya dipasang lewat `use`
+   */
+  eject(interceptor: FetchManagerInterceptor): void
+
+  /**
+   * Jalankan satu hook dari semua interceptor sesuai urutan, lalu hook per call (dipakai internal)
+   */
+  runInterceptors(hook: keyof FetchManagerInterceptor, context: any): Promise<void>
+
   /**
    * Cek apakah refresh token tersedia di storage
-   * @returns true jika refresh token ada dan tidak kosong
+   * @returns true jika refresh token ada dan tidak kosong (selalu true dengan `refreshTokenInCookie`)
    */
   hasRefreshToken(): Promise<boolean>
 
   /**
-   * Queue refresh token untuk mencegah multiple refresh bersamaan
+   * Queue refresh token untuk mencegah multiple refresh bersamaan, termasuk dari instance lain
+   * dengan token store yang sama
    * @returns Promise dengan access token baru
    */
   queuedRefreshToken(): Promise<string>
 
   /**
-   * Refresh access token menggunakan refresh token
+   * Refresh access token lalu simpan lewat `saveToken`.
+   * Dengan `crossTabSync` dijalankan di dalam lock antar tab; jika tab lain sudah refresh selama
+   * menunggu lock, token barunya dipakai tanpa request refresh kedua
+   * @returns Promise dengan access token baru
+   */
+  refreshAndSaveToken(): Promise<string>
+
+  /**
+   * Simpan hasil refresh lewat `saveToken`, `saveRefreshToken` dan `saveRefreshTokenExpiration`
+   * (refresh token dan expiration hanya jika ada di hasil)
+   * @param result - Hasil `parseRefreshResponse`
+   */
+  saveRefreshResult(result: RefreshTokenResult): Promise<void>
+
+  /**
+   * Refresh access token menggunakan refresh token (tanpa menyimpan hasilnya)
    * @returns Promise dengan access token baru
    * @throws Error jika refresh token tidak ada atau expired
    */
   refreshToken(): Promise<string>
 
+  /**
+   * Kirim request refresh sesuai `refreshMethod`, `refreshHeaders`, `buildRefreshBody` dan
+   * `refreshTokenInCookie`, lalu map response lewat `parseRefreshResponse`
+   * @returns Promise dengan hasil refresh
+   * @throws Error jika refresh token tidak ada, expired, atau response tanpa access token
+   */
+  requestTokenRefresh(): Promise<RefreshTokenResult>
+
   /**
    * Handle kegagalan refresh token
    * Memanggil onRefreshFailCallback jika ada
    */
   handleTokenRefreshFailure(): void
 
+  /**
+   * Refresh token untuk request yang mendapat 401 dan return token baru.
+   * Error asli dilempar ulang untuk status lain, URL di `skipRefreshUrls` atau jika tidak ada refresh token
+   */
+  refreshOnUnauthorized(url: string, error: unknown): Promise<string>
+
   /**
    * Main method untuk melakukan HTTP request dengan auth
-   * Otomatis retry dengan token baru jika dapat 401
+   * Otomatis retry dengan token baru jika dapat 401.
+   * Hook di `options` dijalankan setelah interceptor global, tidak menggantikannya
    *
    * @param url - URL endpoint (relative atau absolute)
    * @param options - Opsi fetch request
@@ -1,109 +1,368 @@
 import { ofetch } from 'ofetch'
+import { createTabSync } from './tabSync.js'
+import { resolveTokenStore } from './tokenStore.js'
+
+/**
+ * Ambil claim `exp` (epoch detik) dari access token JWT
+ *
+ * @param {string} token - Access token
+ * @returns {number|null} Expiration dalam epoch detik, null jika bukan JWT atau tidak ada `exp`
+ */
+export function decodeTokenExpiration(token) {
+  if (typeof token !== 'string') return null
+  const payload = token.split('.')[1]
+  if (!payload) return null
+
+  try {
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
+    return typeof exp === 'number' ? exp : null
+  } catch {
+    return null
+  }
+}
+
+// Helper: default mapping response refresh, mendukung beberapa nama key yang umum
+function defaultParseRefreshResponse(response) {
+  const data = response || {}
+  return {
+    accessToken: data.accessToken || data.newAccessToken || data.access_token || data.token,
+    refreshToken: data.refreshToken || data.refresh_token,
+    refreshTokenExpiration: data.refreshTokenExpiration ?? data.refresh_token_expiration
+  }
+}
+
+// Hook ofetch yang bisa dipasang lewat interceptor
+const INTERCEPTOR_HOOKS = ['onRequest', 'onRequestError', 'onResponse', 'onResponseError']
+
+// Helper: pisahkan hook ofetch di options menjadi interceptor, sisanya opsi request biasa
+function extractInterceptor(options) {
+  const rest = { ...options }
+  let interceptor = null
+  for (const hook of INTERCEPTOR_HOOKS) {
+    if (rest[hook]) {
+      interceptor = interceptor || {}
+      interceptor[hook] = rest[hook]
+    }
+    delete rest[hook]
+  }
+  return { interceptor, options: rest }
+}
+
+// Helper: set header Authorization tanpa membuang headers lain (object maupun Headers)
+function withAuthorization(headers, token) {
+  const merged = new Headers(headers)
+  merged.set('Authorization', `Bearer ${token}`)
+  return merged
+}
+
+// Batas delay setTimeout (2^31 - 1 ms), delay lebih besar langsung dijalankan oleh browser
+const MAX_TIMER_DELAY = 2147483647
+
+// Helper: true jika refresh gagal karena gangguan sementara (network, timeout, 408/429/5xx)
+function isTransientRefreshError(error) {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status
+  if (status) return status === 408 || status === 429 || status >= 500
+  return error?.name === 'FetchError' || error instanceof TypeError
+}
+
+// State refresh yang dibagi antar instance dengan token store yang sama (misalnya satu
+// FetchManager per komponen via useFetchServer): satu refresh in-flight dan satu scheduler proaktif
+const sharedRefreshStates = new Map()
+
+// Helper: key state refresh bersama. Getter/saver custom dan store 'memory' tidak dibagi
+function getRefreshStateKey(manager, options) {
+  if (options.getToken || options.saveToken) return manager
+  const store = options.tokenStore ?? 'localStorage'
+  if (typeof store !== 'string') return store
+  if (store === 'memory') return manager
+  return `${store}:${options.tokenPrefix ?? ''}`
+}
+
+// Helper: ambil atau buat state refresh bersama lalu daftarkan instance
+function acquireRefreshState(manager, options) {
+  const key = getRefreshStateKey(manager, options)
+  let state = sharedRefreshStates.get(key)
+  if (!state) {
+    state = { key, promise: null, scheduler: null, managers: new Set() }
+    sharedRefreshStates.set(key, state)
+  }
+  state.managers.add(manager)
+  return state
+}
+
+// Helper: true jika tab sedang tidak terlihat
+function isDocumentHidden() {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden'
+}
 
 export class FetchManager {
   constructor(baseUrl, options = {}) {
     this.baseUrl = baseUrl
     this.refreshTokenUrl = options.refreshTokenUrl || '/api/refresh-token'
+    // Storage default semua token, dipakai oleh default getter/saver dan clearTokens
+    this.tokenStore = resolveTokenStore(options.tokenStore, { prefix: options.tokenPrefix })
+    this.clearTokensFn = options.clearTokens || (() => this.tokenStore.clear())
     this.getTokenFn = options.getToken || this.defaultGetToken
     this.saveTokenFn = options.saveToken || this.defaultSaveToken
     this.getRefreshTokenFn = options.getRefreshToken || this.defaultGetRefreshToken
     this.getRefreshTokenExpirationFn = options.getRefreshTokenExpiration || this.defaultGetRefreshTokenExpiration
+    this.getAccessTokenExpirationFn = options.getAccessTokenExpiration || this.defaultGetAccessTokenExpiration
+    this.saveRefreshTokenFn = options.saveRefreshToken || this.defaultSaveRefreshToken
+    this.saveRefreshTokenExpirationFn = options.saveRefreshTokenExpiration || this.defaultSaveRefreshTokenExpiration
     this.onRefreshFailCallback = options.onRefreshFailCallback
     this.skipRefreshUrls = options.skipRefreshUrls || []
 
+    // Request dan response refresh token
+    this.refreshMethod = options.refreshMethod || 'POST'
+    this.refreshHeaders = options.refreshHeaders
+    this.refreshTokenInCookie = options.refreshTokenInCookie ?? false
+    this.buildRefreshBodyFn = options.buildRefreshBody || this.defaultBuildRefreshBody
+    this.parseRefreshResponseFn = options.parseRefreshResponse || defaultParseRefreshResponse
+
+    // Refresh proaktif (opt-in): refresh N detik sebelum access token expire
+    this.proactiveRefresh = options.proactiveRefresh ?? false
+    this.refreshBeforeExpiry = options.refreshBeforeExpiry ?? 60
+    this.refreshTimer = null
+    this.scheduledToken = null
+    this.tokenSeenAt = 0
+
+    // Koordinasi refresh antar tab: satu tab refresh, tab lain menunggu dan memakai token barunya
+    const crossTabSync = options.crossTabSync ?? true
+    this.tabSync = crossTabSync && typeof window !== 'undefined'
+      ? createTabSync({
+        ...(typeof crossTabSync === 'object' ? crossTabSync : {}),
+        onMessage: (message) => this.handleTabMessage(message)
+      })
+      : null
+
     // State untuk manage refresh token process
     this.isRefreshing = false
     this.refreshPromise = null
+    this.refreshState = acquireRefreshState(this, options)
+
+    // Interceptor user dijalankan berurutan bersama logic auth bawaan.
+    // Hook di options menjadi interceptor pertama, tidak lagi menimpa logic auth
+    const { interceptor, options: fetchOptions } = extractInterceptor(options)
+    this.interceptors = []
+    if (interceptor) this.use(interceptor)
 
     // Buat instance ofetch tanpa interceptor untuk raw requests
     this.$fetchRaw = ofetch.create({
       baseURL: baseUrl,
-      ...options
+      ...fetchOptions
     })
 
-    // Buat instance ofetch dengan interceptor untuk authenticated requests
+    // Buat instance ofetch dengan interceptor untuk authenticated requests.
+    // Urutan: auth -> interceptor user untuk request. Refresh saat 401 dilakukan di `fetch()`,
+    // karena ofetch mengabaikan return value hook onResponseError
     this.$fetch = ofetch.create({
       baseURL: baseUrl,
-      onRequest: async ({ options }) => {
-        const token = await this.getTokenFn()
-        if (token) {
-          options.headers = {
-            ...options.headers,
-            Authorization: `Bearer ${token}`
-          }
-        }
-      },
-      onResponseError: async ({ request, options, response }) => {
-        // Handle 401 dengan token refresh
-        if (response.status === 401 && !options._isRetry) {
-          // Cek apakah URL ini perlu di-skip dari auto refresh
-          const requestUrl = typeof request === 'string' ? request : request.url
-          const shouldSkipRefresh = this.skipRefreshUrls.some(skipUrl => {
-            return requestUrl.includes(skipUrl)
-          })
-
-          // Skip refresh untuk public endpoints (login, register, dll)
-          if (shouldSkipRefresh) {
-            throw response
+      ...fetchOptions,
+      onRequest: [
+        async ({ options }) => {
+          const token = await this.getTokenFn()
+          if (token) {
+            options.headers = withAuthorization(options.headers, token)
           }
+        },
+        (context) => this.runInterceptors('onRequest', context)
+      ],
+      onRequestError: (context) => this.runInterceptors('onRequestError', context),
+      onResponse: (context) => this.runInterceptors('onResponse', context),
+      onResponseError: (context) => this.runInterceptors('onResponseError', context)
+    })
 
-          // Cek apakah ada refresh token sebelum mencoba refresh
-          const hasRefreshToken = await this.hasRefreshToken()
-          if (!hasRefreshToken) {
-            // Tidak ada refresh token, langsung propagate error
-            throw response
-          }
+    // Scheduler refresh hanya di browser, di-pause saat tab tidak terlihat
+    this.handleVisibilityChange = () => {
+      if (isDocumentHidden()) this.cancelScheduledRefresh()
+      else this.scheduleRefresh()
+    }
+    if (this.proactiveRefresh && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange)
+      this.scheduleRefresh()
+    }
+  }
 
-          try {
-            // Gunakan refresh queue untuk prevent multiple refresh
-            const newToken = await this.queuedRefreshToken()
+  // Default: ambil token dari token store
+  async defaultGetToken() {
+    return this.tokenStore.get('accessToken')
+  }
 
-            // Simpan token baru
-            await this.saveTokenFn(newToken)
+  // Default: simpan token ke token store
+  async defaultSaveToken(token) {
+    await this.tokenStore.set('accessToken', token)
+  }
 
-            // Retry request dengan token baru
-            options._isRetry = true
-            options.headers = {
-              ...options.headers,
-              Authorization: `Bearer ${newToken}`
-            }
+  // Default: ambil refresh token dari token store
+  async defaultGetRefreshToken() {
+    return this.tokenStore.get('refreshToken')
+  }
 
-            return this.$fetch(request, options)
-          } catch (refreshError) {
-            this.handleTokenRefreshFailure()
-            throw refreshError
-          }
-        }
+  // Default: ambil refresh token expiration dari token store
+  async defaultGetRefreshTokenExpiration() {
+    return this.tokenStore.get('refreshTokenExpiration')
+  }
 
-        // Propagate error untuk non-401 atau retry yang gagal
-        throw response
-      },
-      ...options
-    })
+  // Default: simpan refresh token baru (hasil rotasi) ke token store
+  async defaultSaveRefreshToken(refreshToken) {
+    await this.tokenStore.set('refreshToken', refreshToken)
   }
 
-  // Default: ambil token dari localStorage
-  async defaultGetToken() {
-    return localStorage.getItem('accessToken')
+  // Default: simpan refresh token expiration baru ke token store
+  async defaultSaveRefreshTokenExpiration(expiration) {
+    await this.tokenStore.set('refreshTokenExpiration', expiration)
   }
 
-  // Default: simpan token ke localStorage
-  async defaultSaveToken(token) {
-    localStorage.setItem('accessToken', token)
+  // Default: body request refresh `{ refreshToken }`, kosong jika refresh token ada di cookie
+  defaultBuildRefreshBody(refreshToken) {
+    return refreshToken ? { refreshToken } : undefined
   }
 
-  // Default: ambil refresh token dari localStorage
-  async defaultGetRefreshToken() {
-    return localStorage.getItem('refreshToken')
+  // Default: expiration access token dari claim `exp` JWT (epoch detik)
+  async defaultGetAccessTokenExpiration(token) {
+    return decodeTokenExpiration(token)
   }
 
-  // Default: ambil refresh token expiration dari localStorage
-  async defaultGetRefreshTokenExpiration() {
-    return localStorage.getItem('refreshTokenExpiration')
+  // Jadwalkan refresh `refreshBeforeExpiry` detik sebelum access token expire
+  async scheduleRefresh() {
+    // Hanya satu scheduler untuk semua instance dengan token store yang sama
+    const { scheduler } = this.refreshState
+    if (scheduler && scheduler !== this) return scheduler.scheduleRefresh()
+
+    this.cancelScheduledRefresh()
+    if (!this.proactiveRefresh || isDocumentHidden()) return
+    this.refreshState.scheduler = this
+
+    let token
+    let expiration
+    try {
+      token = await this.getTokenFn()
+      if (!token || !(await this.hasRefreshToken())) return
+      expiration = Number(await this.getAccessTokenExpirationFn(token))
+    } catch {
+      // Token tidak bisa dibaca, andalkan refresh saat 401
+      return
+    }
+    // Instance sudah di-destroy atau scheduler sudah diambil alih selama await di atas
+    if (!expiration || isDocumentHidden() || this.refreshState.scheduler !== this) return
+
+    // Umur token dihitung sejak pertama kali terlihat. Leeway dibatasi separuh umur
+    // agar token yang umurnya lebih pendek dari refreshBeforeExpiry tidak di-refresh beruntun
+    if (token !== this.scheduledToken) {
+      this.scheduledToken = token
+      this.tokenSeenAt = Date.now()
+    }
+    const expiresAt = expiration * 1000
+    const leeway = Math.min(this.refreshBeforeExpiry * 1000, (expiresAt - this.tokenSeenAt) / 2)
+    const refreshAt = expiresAt - leeway
+    const delay = Math.max(0, refreshAt - Date.now())
+
+    // Jadwal lain mungkin sudah dibuat selama await di atas
+    this.cancelScheduledRefresh()
+    // Delay di atas batas timer dipotong, timer yang berjalan sebelum waktunya cukup menjadwalkan ulang
+    this.refreshTimer = setTimeout(() => {
+      if (Date.now() < refreshAt) this.scheduleRefresh()
+      else this.runScheduledRefresh()
+    }, Math.min(delay, MAX_TIMER_DELAY))
+  }
+
+  // Batalkan refresh yang sudah dijadwalkan
+  cancelScheduledRefresh() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer)
+      this.refreshTimer = null
+    }
   }
 
-  // Cek apakah refresh token tersedia
+  // Jalankan refresh terjadwal lewat queue yang sama dengan refresh saat 401
+  async runScheduledRefresh() {
+    this.refreshTimer = null
+    try {
+      await this.queuedRefreshToken()
+      this.scheduleRefresh()
+    } catch (error) {
+      // Gangguan sementara tidak memicu logout, refresh diulang saat request mendapat 401
+      if (!isTransientRefreshError(error)) this.handleTokenRefreshFailure()
+    }
+  }
+
+  // Terima token hasil refresh tab lain, simpan dan jadwalkan ulang refresh proaktif
+  async handleTabMessage(message) {
+    if (message?.type !== 'refreshed' || !message.token) return
+    try {
+      if ((await this.getTokenFn()) !== message.token) {
+        await this.saveRefreshResult({
+          accessToken: message.token,
+          refreshToken: message.refreshToken,
+          refreshTokenExpiration: message.refreshTokenExpiration
+        })
+      }
+      this.scheduleRefresh()
+    } catch {
+      // Gagal menyimpan, tab ini akan refresh sendiri saat 401
+    }
+  }
+
+  // Hapus semua token (logout), refresh terjadwal ikut dibatalkan
+  clearTokens() {
+    (this.refreshState.scheduler ?? this).cancelScheduledRefresh()
+    this.tabSync?.clearSharedResult()
+    return this.clearTokensFn()
+  }
+
+  // Hentikan scheduler dan lepas listener (dipanggil saat instance tidak dipakai lagi)
+  destroy() {
+    this.cancelScheduledRefresh()
+    this.releaseRefreshState()
+    this.tabSync?.close()
+    this.tabSync = null
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+    }
+  }
+
+  // Lepas instance dari state refresh bersama, scheduler diserahkan ke instance lain yang masih aktif
+  releaseRefreshState() {
+    const state = this.refreshState
+    state.managers.delete(this)
+    if (state.scheduler === this) {
+      state.scheduler = null
+      const next = [...state.managers].find((manager) => manager.proactiveRefresh)
+      next?.scheduleRefresh()
+    }
+    if (state.managers.size === 0 && sharedRefreshStates.get(state.key) === state) {
+      sharedRefreshStates.delete(state.key)
+    }
+  }
+
+  // Tambah interceptor di akhir pipeline, return function untuk melepasnya
+  use(interceptor) {
+    this.interceptors.push(interceptor)
+    return () => this.eject(interceptor)
+  }
+
+  // Lepas interceptor dari pipeline
+  eject(interceptor) {
+    const index = this.interceptors.indexOf(interceptor)
+    if (index !== -1) this.interceptors.splice(index, 1)
+  }
+
+  // Jalankan satu hook dari semua interceptor sesuai urutan, lalu interceptor per call
+  async runInterceptors(hook, context) {
+    // Salin dulu agar eject di tengah pipeline tidak menggeser urutan
+    const interceptors = [...this.interceptors, context.options._interceptor]
+    for (const interceptor of interceptors) {
+      const handler = interceptor?.[hook]
+      if (!handler) continue
+      for (const fn of Array.isArray(handler) ? handler : [handler]) {
+        await fn(context)
+      }
+    }
+  }
+
+  // Cek apakah refresh token tersedia (selalu true jika refresh token ada di cookie httpOnly)
   async hasRefreshToken() {
+    if (this.refreshTokenInCookie) return true
     const refreshToken = await this.getRefreshTokenFn()
     return refreshToken !== null && refreshToken !== undefined && refreshToken !== ''
   }
@@ -115,9 +374,18 @@ export class FetchManager {
       return this.refreshPromise
     }
 
+    // Instance lain dengan token store yang sama sedang refresh: ikut menunggu hasilnya,
+    // agar refresh token yang di-rotate tidak dipakai dua kali
+    const state = this.refreshState
+    if (!state.promise) {
+      state.promise = this.refreshAndSaveToken().finally(() => {
+        state.promise = null
+      })
+    }
+
     // Atomic: set promise dan flag sekaligus
     this.isRefreshing = true
-    this.refreshPromise = this.refreshToken()
+    this.refreshPromise = state.promise
       .then(token => {
         this.isRefreshing = false
         this.refreshPromise = null
@@ -132,10 +400,66 @@ export class FetchManager {
     return this.refreshPromise
   }
 
-  // Refresh token logic
+  // Refresh lalu simpan token baru. Dengan crossTabSync hanya satu tab yang refresh dalam satu waktu,
+  // tab yang menunggu lock memakai token yang sudah di-refresh tab lain
+  async refreshAndSaveToken() {
+    if (!this.tabSync) {
+      const result = await this.requestTokenRefresh()
+      await this.saveRefreshResult(result)
+      return result.accessToken
+    }
+
+    const startedAt = Date.now()
+    const staleToken = await this.getTokenFn()
+    return this.tabSync.withLock(async () => {
+      // Tab lain sudah refresh selama tab ini menunggu lock dan token store dipakai bersama
+      const currentToken = await this.getTokenFn()
+      if (currentToken && currentToken !== staleToken) return currentToken
+
+      // Store per tab (sessionStorage/memory) belum tentu sudah menerima broadcast,
+      // hasil refresh tab lain dibaca dari tabSync
+      const shared = await this.tabSync?.getSharedResult(startedAt)
+      if (shared?.token) {
+        await this.saveRefreshResult({
+          accessToken: shared.token,
+          refreshToken: shared.refreshToken,
+          refreshTokenExpiration: shared.refreshTokenExpiration
+        })
+        return shared.token
+      }
+
+      const result = await this.requestTokenRefresh()
+      await this.saveRefreshResult(result)
+      // Token hanya dikirim lewat pesan, yang disimpan di localStorage hanya penandanya
+      this.tabSync?.shareResult({
+        type: 'refreshed',
+        token: result.accessToken,
+        refreshToken: result.refreshToken,
+        refreshTokenExpiration: result.refreshTokenExpiration
+      })
+      return result.accessToken
+    })
+  }
+
+  // Simpan hasil refresh: access token, refresh token hasil rotasi dan expiration baru (jika ada)
+  async saveRefreshResult({ accessToken, refreshToken, refreshTokenExpiration }) {
+    await this.saveTokenFn(accessToken)
+    if (refreshToken) await this.saveRefreshTokenFn(refreshToken)
+    if (refreshTokenExpiration !== undefined && refreshTokenExpiration !== null) {
+      await this.saveRefreshTokenExpirationFn(refreshTokenExpiration)
+    }
+  }
+
+  // Refresh token logic: return access token baru (tanpa menyimpan)
   async refreshToken() {
-    const refreshToken = await this.getRefreshTokenFn()
-    if (!refreshToken) {
+    const { accessToken } = await this.requestTokenRefresh()
+    return accessToken
+  }
+
+  // Kirim request refresh dan map response lewat parseRefreshResponse
+  async requestTokenRefresh() {
+    const refreshToken = this.refreshTokenInCookie ? null : await this.getRefreshTokenFn()
+    if (!refreshToken && !this.refreshTokenInCookie) {
       throw new Error('No refresh token available')
     }
 
@@ -149,14 +473,24 @@ export class FetchManager {
       }
     }
 
+    const request = { method: this.refreshMethod }
+    const body = await this.buildRefreshBodyFn(refreshToken)
+    if (body !== undefined) request.body = body
+    const headers = typeof this.refreshHeaders === 'function'
+      ? await this.refreshHeaders(refreshToken)
+      : this.refreshHeaders
+    if (headers) request.headers = headers
+    // Refresh token di cookie httpOnly: kirim cookie juga untuk refresh endpoint beda origin
+    if (this.refreshTokenInCookie) request.credentials = 'include'
+
     // Gunakan $fetchRaw untuk avoid infinite loop
-    const response = await this.$fetchRaw(this.refreshTokenUrl, {
-      method: 'POST',
-      body: { refreshToken }
-    })
+    const response = await this.$fetchRaw(this.refreshTokenUrl, request)
 
-    // Return new access token (ambil dari response dengan key apapun)
-    return response.accessToken || response.newAccessToken || response.access_token || response.token
+    const result = await this.parseRefreshResponseFn(response)
+    if (!result?.accessToken) {
+      throw new Error('Refresh response does not contain an access token')
+    }
+    return result
   }
 
   // Handle refresh failure
@@ -166,8 +500,44 @@ export class FetchManager {
     }
   }
 
-  // Main fetch method
+  // Refresh token saat request mendapat 401 dan return token baru. Error asli dilempar ulang
+  // untuk status lain, URL yang di-skip (login, register, dll) atau jika tidak ada refresh token
+  async refreshOnUnauthorized(url, error) {
+    const status = error?.status ?? error?.statusCode ?? error?.response?.status
+    if (status !== 401) throw error
+
+    const requestUrl = typeof url === 'string' ? url : url.url
+    const shouldSkipRefresh = this.skipRefreshUrls.some(skipUrl => {
+      return requestUrl.includes(skipUrl)
+    })
+    if (shouldSkipRefresh || !(await this.hasRefreshToken())) throw error
+
+    try {
+      // Gunakan refresh queue untuk prevent multiple refresh
+      // Token baru sudah disimpan oleh refresh queue
+      const newToken = await this.queuedRefreshToken()
+      this.scheduleRefresh()
+      return newToken
+    } catch (refreshError) {
+      this.handleTokenRefreshFailure()
+      throw refreshError
+    }
+  }
+
+  // Main fetch method. Hook per call dijalankan setelah interceptor global, bukan menggantikannya.
+  // Request yang mendapat 401 di-retry sekali setelah refresh token
   async fetch(url, options = {}) {
-    return this.$fetch(url, options)
+    const { interceptor, options: fetchOptions } = extractInterceptor(options)
+    if (interceptor) fetchOptions._interceptor = interceptor
+
+    try {
+      return await this.$fetch(url, fetchOptions)
+    } catch (error) {
+      const newToken = await this.refreshOnUnauthorized(url, error)
+      return this.$fetch(url, {
+        ...fetchOptions,
+        headers: withAuthorization(fetchOptions.headers, newToken)
+      })
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+/**
+ * Entry cache yang disimpan oleh storage adapter
+ */
+export interface CacheEntry<T = any> {
+  /**
+   * Data response
+   */
+  data: T
+
+  /**
+   * Waktu penyimpanan (epoch ms)
+   */
+  timestamp: number
+
+  /**
+   * Waktu expire (epoch ms), entry dibuang saat terlewati
+   */
+  expiresAt?: number
+
+  /**
+   * URL request (dipakai untuk invalidation berdasarkan prefix)
+   */
+  url?: string
+
+  /**
+   * Tags dari config useFetch (dipakai untuk invalidation berdasarkan tag)
+   */
+  tags?: string[]
+}
+
+/**
+ * Interface storage adapter untuk cache useFetch.
+ * Semua method boleh sync atau async
+ */
+export interface CacheStorage {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): void | Promise<void>
+  delete(key: string): void | Promise<void>
+  keys(): string[] | Promise<string[]>
+  clear(): void | Promise<void>
+}
+
+/**
+ * Statistik cache
+ */
+export interface CacheStats {
+  /**
+   * Jumlah pembacaan yang menemukan entry
+   */
+  hits: number
+
+  /**
+   * Jumlah pembacaan yang tidak menemukan entry (atau sudah expire)
+   */
+  misses: number
+
+  /**
+   * Jumlah entry yang di-evict karena limit
+   */
+  evictions: number
+
+  /**
+   * Jumlah entry saat ini
+   */
+  size: number
+
+  /**
+   * Estimasi ukuran total payload dalam byte
+   */
+  bytes: number
+}
+
+/**
+ * Limit untuk memory storage
+ */
+export interface CacheLimits {
+  /**
+   * Jumlah maksimal entry
+   * @default 100
+   */
+  maxEntries?: number
+
+  /**
+   * Budget ukuran total dalam byte (estimasi dari payload JSON)
+   * @default Infinity
+   */
+  maxSize?: number
+}
+
+/**
+ * Memory storage dengan eviction LRU dan statistik
+ */
+export interface MemoryCacheStorage extends CacheStorage {
+  get(key: string): CacheEntry | undefined
+  set(key: string, entry: CacheEntry): void
+  delete(key: string): void
+  keys(): string[]
+  clear(): void
+
+  /**
+   * Baca entry tanpa mengubah urutan LRU dan statistik
+   */
+  peek(key: string): CacheEntry | undefined
+
+  /**
+   * Ubah limit dan langsung evict entry yang melebihi limit baru
+   */
+  setLimits(limits: CacheLimits): void
+
+  /**
+   * Statistik cache
+   */
+  stats(): CacheStats
+}
+
+/**
+ * Nama storage bawaan
+ */
+export type CacheStorageName = 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB'
+
+export interface MemoryStorageOptions extends CacheLimits {}
+
+export interface WebStorageOptions {
+  /**
+   * Prefix key di storage
+   * @default 'vue3-utils:fetch:'
+   */
+  prefix?: string
+
+  /**
+   * Jumlah maksimal entry milik prefix; entry paling lama ditulis di-evict saat key baru ditulis.
+   * `Infinity` untuk menonaktifkan eviction
+   * @default 100
+   */
+  maxEntries?: number
+
+  /**
+   * Serializer entry
+   * @default JSON.stringify
+   */
+  serialize?: (entry: CacheEntry) => string
+
+  /**
+   * Deserializer entry
+   * @default JSON.parse
+   */
+  deserialize?: (raw: string) => CacheEntry
+}
+
+export interface IndexedDBStorageOptions {
+  /**
+   * Nama database
+   * @default 'vue3-utils'
+   */
+  dbName?: string
+
+  /**
+   * Nama object store
+   * @default 'fetch-cache'
+   */
+  storeName?: string
+
+  /**
+   * Jumlah maksimal entry; entry paling lama ditulis di-evict saat key baru ditulis.
+   * `Infinity` untuk menonaktifkan eviction
+   * @default 100
+   */
+  maxEntries?: number
+}
+
+/**
+ * Membuat storage cache di memory dengan eviction LRU,
+ * batas jumlah entry dan budget ukuran opsional
+ */
+export declare function createMemoryStorage(options?: MemoryStorageOptions): MemoryCacheStorage
+
+/**
+ * Membuat storage cache di atas localStorage/sessionStorage.
+ * Entry expired dihapus dan jumlah entry dibatasi `maxEntries` saat key baru ditulis;
+ * saat quota penuh entry expired dihapus lalu dicoba lagi, fallback ke memory jika tetap gagal
+ *
+ * @example
+ * ```ts
+ * const storage = createWebStorage(() => window.localStorage, { prefix: 'app:' })
+ * useFetch('/api/countries', {}, { cacheTime: 60_000, storage })
+ * ```
+ */
+export declare function createWebStorage(
+  storage: Storage | (() => Storage | undefined),
+  options?: WebStorageOptions
+): CacheStorage
+
+/**
+ * Membuat storage cache di atas IndexedDB (async).
+ * Entry expired dihapus dan jumlah entry dibatasi `maxEntries` saat key baru ditulis.
+ * Fallback ke memory jika IndexedDB tidak tersedia
+ */
+export declare function createIndexedDBStorage(options?: IndexedDBStorageOptions): CacheStorage
+
+/**
+ * Resolve nama storage bawaan atau adapter custom menjadi instance adapter
+ */
+export declare function resolveCacheStorage(storage?: CacheStorageName | CacheStorage): CacheStorage
+
+/**
+ * Mengatur storage cache default untuk semua useFetch
+ *
+ * @example
+ * ```ts
+ * setDefaultCacheStorage('localStorage')
+ * ```
+ */
+export declare function setDefaultCacheStorage(storage: CacheStorageName | CacheStorage): void
+
+/**
+ * Mengatur limit cache memory bawaan ('memory').
+ * Entry yang melebihi limit baru langsung di-evict (LRU)
+ *
+ * @example
+ * ```ts
+ * setCacheLimits({ maxEntries: 500, maxSize: 5 * 1024 * 1024 })
+ * ```
+ */
+export declare function setCacheLimits(limits: CacheLimits): void
+
+/**
+ * Mengambil statistik cache. Return null jika storage tidak mendukung stats
+ * @param storage - Storage yang dicek (default 'memory')
+ *
+ * @example
+ * ```ts
+ * const { hits, misses, evictions, size } = getCacheStats()!
+ * ```
+ */
+export declare function getCacheStats(storage?: CacheStorageName | CacheStorage): CacheStats | null
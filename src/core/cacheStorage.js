@@ -0,0 +1,513 @@
+/**
+ * Storage adapter untuk cache useFetch
+ *
+ * Setiap adapter punya interface yang sama: `get`, `set`, `delete`, `keys`, `clear`.
+ * Method boleh sync atau async (return Promise). Entry yang disimpan berbentuk
+ * `{ data, timestamp, expiresAt }` sehingga TTL ikut tersimpan bersama data.
+ */
+
+// Prefix key untuk localStorage/sessionStorage
+const DEFAULT_PREFIX = 'vue3-utils:fetch:'
+// Batas entry default untuk memory storage
+const DEFAULT_MAX_ENTRIES = 100
+
+// Helper: cek apakah entry sudah melewati expiresAt
+function isExpired(entry) {
+  return entry?.expiresAt != null && Date.now() >= entry.expiresAt
+}
+
+// Helper: estimasi ukuran payload dalam byte (string JS = UTF-16, 2 byte per karakter)
+function estimateSize(data) {
+  try {
+    return (JSON.stringify(data) ?? '').length * 2
+  } catch {
+    return 0
+  }
+}
+
+// Helper: true jika error karena storage penuh
+function isQuotaError(err) {
+  return err?.name === 'QuotaExceededError' || err?.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err?.code === 22
+}
+
+// Helper: urutkan entry persistent dari yang paling lama ditulis
+function byOldest(a, b) {
+  return a.timestamp - b.timestamp
+}
+
+// Helper: warning saat adapter persistent gagal dan fallback ke memory
+function warnFallback(key, err) {
+  console.warn(`[useFetch] Gagal menyimpan cache "${key}" ke storage, fallback ke memory:`, err)
+}
+
+/**
+ * Membuat storage cache di memory (Map) dengan eviction LRU
+ * Entry yang dibaca dipindah ke posisi paling baru, sehingga yang di-evict
+ * saat limit tercapai adalah entry yang paling lama tidak diakses.
+ * Entry otomatis dihapus saat expiresAt tercapai.
+ *
+ * @param {Object} [options={}]
+ * @param {number} [options.maxEntries=100] - Jumlah maksimal entry
+ * @param {number} [options.maxSize=Infinity] - Budget ukuran total dalam byte (estimasi dari payload JSON)
+ * @returns {import('./cacheStorage').CacheStorage}
+ * @example
+ * const storage = createMemoryStorage({ maxEntries: 50, maxSize: 2 * 1024 * 1024 })
+ */
+export function createMemoryStorage({ maxEntries = DEFAULT_MAX_ENTRIES, maxSize = Infinity } = {}) {
+  // key -> { entry, size }, urutan Map = urutan akses (paling lama di depan)
+  const records = new Map()
+  const timers = new Map()
+  const limits = { maxEntries, maxSize }
+  const counters = { hits: 0, misses: 0, evictions: 0 }
+  let totalSize = 0
+
+  const remove = (key) => {
+    const record = records.get(key)
+    if (record) totalSize -= record.size
+    clearTimeout(timers.get(key))
+    timers.delete(key)
+    records.delete(key)
+  }
+
+  // Evict least recently used entry sampai entry baru muat
+  const enforceLimits = (incomingCount = 0, incomingSize = 0) => {
+    while (
+      records.size > 0 &&
+      (records.size + incomingCount > limits.maxEntries ||
+        totalSize + incomingSize > limits.maxSize)
+    ) {
+      remove(records.keys().next().value)
+      counters.evictions++
+    }
+  }
+
+  return {
+    get(key) {
+      const record = records.get(key)
+      if (!record || isExpired(record.entry)) {
+        if (record) remove(key)
+        counters.misses++
+        return undefined
+      }
+
+      // Touch: pindahkan ke posisi most recently used
+      records.delete(key)
+      records.set(key, record)
+      counters.hits++
+      return record.entry
+    },
+
+    // Baca entry tanpa mengubah urutan LRU dan statistik
+    peek(key) {
+      const record = records.get(key)
+      return record && !isExpired(record.entry) ? record.entry : undefined
+    },
+
+    set(key, entry) {
+      remove(key)
+
+      const size = estimateSize(entry.data)
+      // Entry yang lebih besar dari seluruh budget tidak disimpan
+      if (size > limits.maxSize) {
+        counters.evictions++
+        return
+      }
+
+      enforceLimits(1, size)
+      records.set(key, { entry, size })
+      totalSize += size
+
+      // Auto cleanup setelah expire. Di Node timer di-unref agar tidak menahan proses server tetap hidup
+      if (entry.expiresAt != null) {
+        const timer = setTimeout(() => remove(key), entry.expiresAt - Date.now())
+        timer.unref?.()
+        timers.set(key, timer)
+      }
+    },
+
+    delete: remove,
+
+    keys() {
+      return [...records.keys()]
+    },
+
+    clear() {
+      for (const key of [...records.keys()]) remove(key)
+    },
+
+    /**
+     * Ubah limit dan langsung evict entry yang melebihi limit baru
+     * @param {{ maxEntries?: number, maxSize?: number }} newLimits
+     */
+    setLimits(newLimits) {
+      Object.assign(limits, newLimits)
+      enforceLimits()
+    },
+
+    /**
+     * Statistik cache: hits, misses, evictions, jumlah entry dan estimasi byte
+     * @returns {import('./cacheStorage').CacheStats}
+     */
+    stats() {
+      return { ...counters, size: records.size, bytes: totalSize }
+    }
+  }
+}
+
+/**
+ * Membuat storage cache di atas Web Storage (localStorage/sessionStorage)
+ * Entry di-serialize ke string. Saat key baru ditulis, entry expired milik prefix dihapus dan
+ * entry paling lama di-evict jika jumlahnya melebihi `maxEntries`. Jika storage penuh (quota error),
+ * entry expired dihapus lalu penulisan dicoba sekali lagi; jika tetap gagal atau storage
+ * tidak tersedia, entry disimpan di memory sebagai fallback.
+ *
+ * @param {Storage|(() => Storage|undefined)} storage - Instance Storage atau getter (lazy, aman untuk SSR)
+ * @param {Object} [options={}]
+ * @param {string} [options.prefix='vue3-utils:fetch:'] - Prefix key di storage
+ * @param {number} [options.maxEntries=100] - Jumlah maksimal entry milik prefix (Infinity: tanpa eviction)
+ * @param {(entry: Object) => string} [options.serialize=JSON.stringify] - Serializer entry
+ * @param {(raw: string) => Object} [options.deserialize=JSON.parse] - Deserializer entry
+ * @returns {import('./cacheStorage').CacheStorage}
+ * @example
+ * const storage = createWebStorage(() => window.localStorage, { prefix: 'app:' })
+ */
+export function createWebStorage(storage, {
+  prefix = DEFAULT_PREFIX,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  serialize = JSON.stringify,
+  deserialize = JSON.parse
+} = {}) {
+  const fallback = createMemoryStorage()
+  const getStorage = () => (typeof storage === 'function' ? storage() : storage)
+
+  const removeRaw = (key) => {
+    getStorage()?.removeItem(prefix + key)
+  }
+
+  // Key (tanpa prefix) milik adapter ini di storage
+  const storedKeys = (store) => {
+    const keys = []
+    for (let i = 0; i < store.length; i++) {
+      const rawKey = store.key(i)
+      if (rawKey?.startsWith(prefix)) keys.push(rawKey.slice(prefix.length))
+    }
+    return keys
+  }
+
+  // Hapus entry expired/rusak milik prefix, return entry yang tersisa `{ key, timestamp }`
+  const pruneExpired = (store) => {
+    const alive = []
+    for (const key of storedKeys(store)) {
+      let entry = null
+      try {
+        entry = deserialize(store.getItem(prefix + key))
+      } catch {
+        // Data rusak ikut dihapus
+      }
+      if (!entry || isExpired(entry)) store.removeItem(prefix + key)
+      else alive.push({ key, timestamp: entry.timestamp ?? 0 })
+    }
+    return alive
+  }
+
+  // Sisakan ruang untuk satu key baru: hapus entry expired lalu evict yang paling lama ditulis
+  const makeRoom = (store) => {
+    const alive = pruneExpired(store).sort(byOldest)
+    while (alive.length >= maxEntries) store.removeItem(prefix + alive.shift().key)
+  }
+
+  // Tulis entry; saat quota penuh, hapus entry expired lalu coba sekali lagi
+  const write = (store, key, raw) => {
+    try {
+      store.setItem(prefix + key, raw)
+    } catch (err) {
+      if (!isQuotaError(err)) throw err
+      pruneExpired(store)
+      store.setItem(prefix + key, raw)
+    }
+  }
+
+  const adapter = {
+    get(key) {
+      const memoryEntry = fallback.get(key)
+      if (memoryEntry) return memoryEntry
+
+      const raw = getStorage()?.getItem(prefix + key)
+      if (raw == null) return undefined
+
+      let entry
+      try {
+        entry = deserialize(raw)
+      } catch {
+        // Data rusak, buang saja
+        removeRaw(key)
+        return undefined
+      }
+
+      if (isExpired(entry)) {
+        removeRaw(key)
+        return undefined
+      }
+      return entry
+    },
+
+    set(key, entry) {
+      const store = getStorage()
+      if (!store) {
+        fallback.set(key, entry)
+        return
+      }
+
+      try {
+        const raw = serialize(entry)
+        if (store.getItem(prefix + key) === null) makeRoom(store)
+        write(store, key, raw)
+        fallback.delete(key)
+      } catch (err) {
+        // QuotaExceededError atau data tidak bisa di-serialize
+        warnFallback(key, err)
+        fallback.set(key, entry)
+      }
+    },
+
+    delete(key) {
+      fallback.delete(key)
+      removeRaw(key)
+    },
+
+    keys() {
+      const keys = new Set(fallback.keys())
+      const store = getStorage()
+      if (store) storedKeys(store).forEach((key) => keys.add(key))
+      return [...keys]
+    },
+
+    clear() {
+      for (const key of adapter.keys()) adapter.delete(key)
+    }
+  }
+
+  return adapter
+}
+
+/**
+ * Membuat storage cache di atas IndexedDB (async)
+ * Saat key baru ditulis, entry expired dihapus dan entry paling lama di-evict jika jumlahnya
+ * melebihi `maxEntries`. Saat quota penuh, entry expired dihapus lalu penulisan dicoba sekali lagi.
+ * Jika IndexedDB tidak tersedia atau operasi tetap gagal, entry disimpan di memory.
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.dbName='vue3-utils'] - Nama database
+ * @param {string} [options.storeName='fetch-cache'] - Nama object store
+ * @param {number} [options.maxEntries=100] - Jumlah maksimal entry (Infinity: tanpa eviction)
+ * @returns {import('./cacheStorage').CacheStorage}
+ * @example
+ * const storage = createIndexedDBStorage({ dbName: 'my-app' })
+ */
+export function createIndexedDBStorage({
+  dbName = 'vue3-utils',
+  storeName = 'fetch-cache',
+  maxEntries = DEFAULT_MAX_ENTRIES
+} = {}) {
+  const fallback = createMemoryStorage()
+  let dbPromise = null
+
+  const openDB = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB tidak tersedia'))
+          return
+        }
+
+        const request = indexedDB.open(dbName, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return dbPromise
+  }
+
+  // Helper: jalankan satu operasi di dalam transaction
+  const run = async (mode, operation) => {
+    const db = await openDB()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode)
+      const request = operation(tx.objectStore(storeName))
+      tx.oncomplete = () => resolve(request.result)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  // Hapus entry expired, return entry yang tersisa `{ key, timestamp }`
+  const pruneExpired = async () => {
+    const [keys, entries] = await Promise.all([
+      run('readonly', (store) => store.getAllKeys()),
+      run('readonly', (store) => store.getAll())
+    ])
+    const alive = []
+    for (let i = 0; i < keys.length; i++) {
+      if (!entries[i] || isExpired(entries[i])) await run('readwrite', (store) => store.delete(keys[i]))
+      else alive.push({ key: keys[i], timestamp: entries[i].timestamp ?? 0 })
+    }
+    return alive
+  }
+
+  // Sisakan ruang untuk satu key baru: hapus entry expired lalu evict yang paling lama ditulis
+  const makeRoom = async () => {
+    const alive = (await pruneExpired()).sort(byOldest)
+    while (alive.length >= maxEntries) {
+      const { key } = alive.shift()
+      await run('readwrite', (store) => store.delete(key))
+    }
+  }
+
+  // Tulis entry; saat quota penuh, hapus entry expired lalu coba sekali lagi
+  const write = async (key, entry) => {
+    try {
+      await run('readwrite', (store) => store.put(entry, key))
+    } catch (err) {
+      if (!isQuotaError(err)) throw err
+      await pruneExpired()
+      await run('readwrite', (store) => store.put(entry, key))
+    }
+  }
+
+  const adapter = {
+    async get(key) {
+      const memoryEntry = fallback.get(key)
+      if (memoryEntry) return memoryEntry
+
+      try {
+        const entry = await run('readonly', (store) => store.get(key))
+        if (isExpired(entry)) {
+          await adapter.delete(key)
+          return undefined
+        }
+        return entry
+      } catch {
+        return undefined
+      }
+    },
+
+    async set(key, entry) {
+      try {
+        const existing = await run('readonly', (store) => store.get(key))
+        if (existing === undefined) await makeRoom()
+        await write(key, entry)
+        fallback.delete(key)
+      } catch (err) {
+        warnFallback(key, err)
+        fallback.set(key, entry)
+      }
+    },
+
+    async delete(key) {
+      fallback.delete(key)
+      try {
+        await run('readwrite', (store) => store.delete(key))
+      } catch {
+        // Tidak ada yang perlu dihapus
+      }
+    },
+
+    async keys() {
+      const keys = new Set(fallback.keys())
+      try {
+        const stored = await run('readonly', (store) => store.getAllKeys())
+        stored.forEach((key) => keys.add(String(key)))
+      } catch {
+        // IndexedDB tidak tersedia, cukup key dari memory
+      }
+      return [...keys]
+    },
+
+    async clear() {
+      fallback.clear()
+      try {
+        await run('readwrite', (store) => store.clear())
+      } catch {
+        // IndexedDB tidak tersedia
+      }
+    }
+  }
+
+  return adapter
+}
+
+// Factory untuk storage bawaan yang bisa dipilih lewat nama
+const builtinStorages = {
+  memory: () => createMemoryStorage(),
+  localStorage: () => createWebStorage(() => globalThis.localStorage),
+  sessionStorage: () => createWebStorage(() => globalThis.sessionStorage),
+  indexedDB: () => createIndexedDBStorage()
+}
+
+// Instance shared untuk storage bawaan (satu per nama)
+const storageInstances = new Map()
+
+// Storage default global untuk semua useFetch
+let defaultStorage = 'memory'
+
+/**
+ * Resolve nama storage bawaan atau adapter custom menjadi instance adapter
+ *
+ * @param {string|import('./cacheStorage').CacheStorage} [storage] - Nama storage atau adapter (default: storage global)
+ * @returns {import('./cacheStorage').CacheStorage}
+ * @throws {Error} Jika nama storage tidak dikenal
+ */
+export function resolveCacheStorage(storage = defaultStorage) {
+  if (typeof storage !== 'string') return storage
+
+  if (!storageInstances.has(storage)) {
+    const factory = builtinStorages[storage]
+    if (!factory) {
+      throw new Error(`[useFetch] Cache storage "${storage}" tidak dikenal`)
+    }
+    storageInstances.set(storage, factory())
+  }
+  return storageInstances.get(storage)
+}
+
+/**
+ * Mengatur storage cache default untuk semua useFetch
+ * Bisa di-override per call lewat config `storage`
+ *
+ * @param {string|import('./cacheStorage').CacheStorage} storage - 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB' atau adapter custom
+ * @returns {void}
+ * @example
+ * setDefaultCacheStorage('localStorage')
+ */
+export function setDefaultCacheStorage(storage) {
+  defaultStorage = storage
+}
+
+/**
+ * Mengatur limit cache memory bawaan ('memory')
+ * Entry yang melebihi limit baru langsung di-evict (LRU)
+ *
+ * @param {Object} limits
+ * @param {number} [limits.maxEntries] - Jumlah maksimal entry
+ * @param {number} [limits.maxSize] - Budget ukuran total dalam byte
+ * @returns {void}
+ * @example
+ * setCacheLimits({ maxEntries: 500, maxSize: 5 * 1024 * 1024 })
+ */
+export function setCacheLimits(limits) {
+  resolveCacheStorage('memory').setLimits(limits)
+}
+
+/**
+ * Mengambil statistik cache (hits, misses, evictions, size, bytes)
+ *
+ * @param {string|import('./cacheStorage').CacheStorage} [storage='memory'] - Storage yang dicek
+ * @returns {import('./cacheStorage').CacheStats|null} Statistik, atau null jika storage tidak mendukung stats
+ * @example
+ * const { hits, misses, evictions, size } = getCacheStats()
+ */
+export function getCacheStats(storage = 'memory') {
+  const adapter = resolveCacheStorage(storage)
+  return typeof adapter.stats === 'function' ? adapter.stats() : null
+}
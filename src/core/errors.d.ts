@@ -0,0 +1,84 @@
+/**
+ * Jenis error request useFetch
+ */
+export type FetchErrorKind = 'timeout' | 'network' | 'http' | 'abort' | 'parse';
+
+export interface FetchErrorOptions<T = any> {
+    kind?: FetchErrorKind;
+    status?: number;
+    data?: T;
+    url?: string;
+    response?: any;
+    cause?: unknown;
+}
+
+/**
+ * Error ternormalisasi untuk useFetch, dibedakan lewat `kind`
+ *
+ * @example
+ * ```ts
+ * if (error.value?.kind === 'http' && error.value.status === 404) showNotFound()
+ * ```
+ */
+export class FetchError<T = any> extends Error {
+    name: 'FetchError' | 'ValidationError';
+
+    /**
+     * Jenis error
+     */
+    kind: FetchErrorKind;
+
+    /**
+     * HTTP status (undefined jika tidak ada response)
+     */
+    status?: number;
+
+    /**
+     * Body response error atau data yang gagal di-parse
+     */
+    data?: T;
+
+    /**
+     * URL request
+     */
+    url?: string;
+
+    /**
+     * Response asli (jika ada)
+     */
+    response?: any;
+
+    /**
+     * Error asli
+     */
+    cause: unknown;
+
+    constructor(message: string, options?: FetchErrorOptions<T>);
+}
+
+/**
+ * Error saat data response tidak lolos validasi `validate` di useFetch (kind 'parse')
+ */
+export class ValidationError<T = any> extends FetchError<T> {
+    name: 'ValidationError';
+    kind: 'parse';
+
+    /**
+     * Data yang gagal divalidasi
+     */
+    data: T;
+
+    /**
+     * @param message - Pesan error
+     * @param options - Data yang gagal divalidasi, URL dan error asli dari validator
+     */
+    constructor(message: string, options?: { data?: T; url?: string; cause?: unknown });
+}
+
+/**
+ * Normalisasi error apapun dari request menjadi FetchError
+ */
+export declare function normalizeFetchError(
+    error: unknown,
+    context?: { url?: string; timedOut?: boolean; timeout?: number }
+): FetchError;
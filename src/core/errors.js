@@ -0,0 +1,132 @@
+/**
+ * Error ternormalisasi untuk useFetch
+ * Semua error request (timeout, network, HTTP, parse) dibungkus ke bentuk yang sama
+ * sehingga bisa dibedakan lewat `kind` tanpa perlu tahu error asli dari ofetch/XHR.
+ *
+ * @class FetchError
+ * @extends Error
+ * @example
+ * const { error } = useFetch('/api/users', {}, { timeout: 5000 })
+ * if (error.value?.kind === 'timeout') showToast('Server terlalu lama merespon')
+ * if (error.value?.kind === 'http' && error.value.status === 404) showNotFound()
+ */
+export class FetchError extends Error {
+    /**
+     * @constructor
+     * @param {string} message - Pesan error
+     * @param {Object} [options={}]
+     * @param {'timeout'|'network'|'http'|'abort'|'parse'} [options.kind='network'] - Jenis error
+     * @param {number} [options.status] - HTTP status (untuk kind 'http')
+     * @param {any} [options.data] - Body response error atau data yang gagal di-parse
+     * @param {string} [options.url] - URL request
+     * @param {Object} [options.response] - Response asli (jika ada)
+     * @param {any} [options.cause] - Error asli
+     */
+    constructor(message, { kind = 'network', status, data, url, response, cause } = {}) {
+        super(message)
+        this.name = 'FetchError'
+        /**
+         * Jenis error: 'timeout' | 'network' | 'http' | 'abort' | 'parse'
+         * @type {string}
+         */
+        this.kind = kind
+        /**
+         * HTTP status (undefined jika tidak ada response)
+         * @type {number|undefined}
+         */
+        this.status = status
+        /**
+         * Body response error atau data yang gagal di-parse
+         * @type {any}
+         */
+        this.data = data
+        /**
+         * URL request
+         * @type {string|undefined}
+         */
+        this.url = url
+        /**
+         * Response asli (jika ada)
+         * @type {Object|undefined}
+         */
+        this.response = response
+        /**
+         * Error asli
+         * @type {any}
+         */
+        this.cause = cause
+    }
+}
+
+/**
+ * Error saat data response tidak lolos validasi `validate` di useFetch (kind 'parse')
+ *
+ * @class ValidationError
+ * @extends FetchError
+ * @example
+ * const { error } = useFetch('/api/user', {}, { validate: UserSchema.parse })
+ * if (error.value instanceof ValidationError) {
+ *   console.log(error.value.cause) // error asli dari validator (misalnya ZodError)
+ * }
+ */
+export class ValidationError extends FetchError {
+    /**
+     * @constructor
+     * @param {string} message - Pesan error
+     * @param {Object} [options={}]
+     * @param {any} [options.data] - Data yang gagal divalidasi
+     * @param {string} [options.url] - URL request
+     * @param {any} [options.cause] - Error asli dari validator
+     */
+    constructor(message, { data, url, cause } = {}) {
+        super(message, { kind: 'parse', data, url, cause })
+        this.name = 'ValidationError'
+    }
+}
+
+/**
+ * Normalisasi error apapun dari request menjadi FetchError
+ *
+ * @param {any} error - Error asli (ofetch FetchError, TypeError, DOMException, dll)
+ * @param {Object} [context={}]
+ * @param {string} [context.url] - URL request
+ * @param {boolean} [context.timedOut=false] - True jika request di-abort karena timeout
+ * @param {number} [context.timeout] - Nilai timeout (ms) untuk pesan error
+ * @returns {FetchError}
+ */
+export function normalizeFetchError(error, { url, timedOut = false, timeout } = {}) {
+    if (error instanceof FetchError) {
+        if (error.url === undefined) error.url = url
+        return error
+    }
+
+    if (timedOut || error?.name === 'TimeoutError') {
+        return new FetchError(`Request timeout${timeout ? ` setelah ${timeout}ms` : ''}`, { kind: 'timeout', url, cause: error })
+    }
+
+    const message = error?.message || String(error)
+
+    if (error?.name === 'AbortError') {
+        return new FetchError(message, { kind: 'abort', url, cause: error })
+    }
+
+    const status = error?.status ?? error?.statusCode ?? error?.response?.status
+    if (status) {
+        return new FetchError(message, {
+            kind: 'http',
+            status,
+            data: error.data ?? error.response?._data,
+            url,
+            response: error.response,
+            cause: error
+        })
+    }
+
+    // Hanya kegagalan transport yang dianggap network: TypeError dari fetch, FetchError ofetch/XHR
+    // tanpa status, atau NetworkError. Error lain (termasuk dari transform/select/onChunk) adalah 'parse'
+    if (error instanceof TypeError || error?.name === 'FetchError' || error?.name === 'NetworkError') {
+        return new FetchError(message, { kind: 'network', url, cause: error })
+    }
+
+    return new FetchError(message, { kind: 'parse', url, cause: error })
+}
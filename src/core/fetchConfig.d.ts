@@ -0,0 +1,112 @@
+import type { App, InjectionKey } from "vue";
+import type { FetchOptions } from 'ofetch'
+import type { OfflineQueue } from './offlineQueue'
+
+/**
+ * Default global untuk useFetch, bisa di-override per call
+ */
+export interface FetchConfig extends Pick<FetchOptions, 'baseURL' | 'onRequest' | 'onRequestError' | 'onResponse' | 'onResponseError'> {
+  /**
+   * Headers default, digabung dengan headers per call (per call menang)
+   */
+  headers?: HeadersInit;
+
+  /**
+   * Default `cacheTime` (ms)
+   */
+  cacheTime?: number;
+
+  /**
+   * Default `staleTime` (ms)
+   */
+  staleTime?: number;
+
+  /**
+   * Default jumlah retry
+   */
+  retry?: number;
+
+  /**
+   * Default delay retry (ms) atau `(attempt) => ms`
+   */
+  retryDelay?: number | ((attempt: number) => number);
+
+  /**
+   * Default retry policy
+   */
+  shouldRetry?: (error: any, attempt: number) => boolean;
+
+  /**
+   * Default timeout request (ms)
+   */
+  timeout?: number;
+
+  /**
+   * Default antrean offline untuk request non-GET
+   */
+  offlineQueue?: boolean | OfflineQueue;
+}
+
+/**
+ * Vue plugin hasil `createFetchConfig`
+ */
+export interface FetchConfigPlugin {
+  config: FetchConfig;
+  install(app: App): void;
+}
+
+/**
+ * Opsi plugin vue3-utils
+ */
+export interface Vue3UtilsOptions {
+  /**
+   * Default global untuk useFetch
+   */
+  fetch?: FetchConfig;
+}
+
+/**
+ * Injection key konfigurasi fetch global. Bisa di-`provide` ulang untuk subtree tertentu
+ */
+export declare const FETCH_CONFIG_KEY: InjectionKey<FetchConfig>;
+
+/**
+ * Buat Vue plugin yang menyediakan default global untuk useFetch
+ *
+ * @example
+ * ```ts
+ * app.use(createFetchConfig({
+ *   baseURL: 'https://api.example.com',
+ *   headers: { Accept: 'application/json' },
+ *   cacheTime: 60000,
+ *   retry: 2
+ * }))
+ * ```
+ */
+export declare function createFetchConfig(config?: FetchConfig): FetchConfigPlugin;
+
+/**
+ * Plugin vue3-utils untuk konfigurasi global
+ *
+ * @example
+ * ```ts
+ * app.use(vue3Utils, { fetch: { baseURL: 'https://api.example.com' } })
+ * ```
+ */
+export declare const vue3Utils: {
+  install(app: App, options?: Vue3UtilsOptions): void;
+};
+
+/**
+ * Ambil konfigurasi fetch global dari context component (internal)
+ */
+export declare function injectFetchConfig(): FetchConfig | null;
+
+/**
+ * Terapkan default global ke opsi ofetch dan config useFetch (internal)
+ */
+export declare function applyFetchDefaults<TOptions extends object, TConfig extends object>(
+  fetchConfig: FetchConfig | null,
+  options: TOptions,
+  config: TConfig
+): { options: TOptions; config: TConfig };
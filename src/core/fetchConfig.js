@@ -0,0 +1,124 @@
+import { inject, getCurrentInstance } from 'vue'
+
+/**
+ * Konfigurasi global useFetch via provide/inject
+ *
+ * Default (base URL, headers, cacheTime, retry policy, interceptor) di-provide di level app
+ * lewat `app.use(createFetchConfig({...}))` atau `app.use(vue3Utils, { fetch: {...} })`,
+ * lalu dibaca oleh useFetch saat setup. Nilai per call selalu menang.
+ */
+
+/**
+ * Injection key untuk konfigurasi fetch global.
+ * Bisa di-`provide` ulang di component untuk override default di subtree tertentu.
+ */
+export const FETCH_CONFIG_KEY = Symbol('vue3-utils:fetch-config')
+
+// Opsi ofetch yang bisa diberi default global (interceptor mengikuti hook ofetch)
+const REQUEST_OPTION_KEYS = ['baseURL', 'onRequest', 'onRequestError', 'onResponse', 'onResponseError']
+
+// Config useFetch yang bisa diberi default global
+const CONFIG_KEYS = ['cacheTime', 'staleTime', 'retry', 'retryDelay', 'shouldRetry', 'timeout', 'offlineQueue']
+
+// Helper: ambil key tertentu yang terisi dari object
+function pick(source, keys) {
+  const result = {}
+  for (const key of keys) {
+    if (source[key] !== undefined) result[key] = source[key]
+  }
+  return result
+}
+
+// Helper: gabungkan headers default dan headers per call (per call menang, case-insensitive)
+function mergeHeaders(defaults, headers) {
+  if (!defaults) return headers
+  if (!headers) return defaults
+
+  const merged = new Headers(defaults)
+  new Headers(headers).forEach((value, name) => merged.set(name, value))
+  return Object.fromEntries(merged)
+}
+
+/**
+ * Buat Vue plugin yang menyediakan default global untuk useFetch
+ *
+ * @param {Object} [config={}] - Default global
+ * @param {string} [config.baseURL] - Base URL untuk semua request
+ * @param {Object} [config.headers] - Headers default (digabung dengan headers per call)
+ * @param {number} [config.cacheTime] - Default `cacheTime`
+ * @param {number} [config.staleTime] - Default `staleTime`
+ * @param {number} [config.retry] - Default jumlah retry
+ * @param {number|Function} [config.retryDelay] - Default delay retry
+ * @param {Function} [config.shouldRetry] - Default retry policy
+ * @param {number} [config.timeout] - Default timeout (ms)
+ * @param {boolean|Object} [config.offlineQueue] - Default antrean offline untuk request non-GET
+ * @param {Function} [config.onRequest] - Interceptor ofetch sebelum request dikirim
+ * @param {Function} [config.onRequestError] - Interceptor ofetch saat request gagal dikirim
+ * @param {Function} [config.onResponse] - Interceptor ofetch setelah response diterima
+ * @param {Function} [config.onResponseError] - Interceptor ofetch saat response error (status >= 400)
+ * @returns {{ config: Object, install: Function }} Vue plugin
+ * @example
+ * app.use(createFetchConfig({
+ *   baseURL: 'https://api.example.com',
+ *   headers: { Accept: 'application/json' },
+ *   cacheTime: 60000,
+ *   retry: 2,
+ *   onRequest: ({ options }) => {
+ *     options.headers = { ...options.headers, Authorization: `Bearer ${getToken()}` }
+ *   }
+ * }))
+ */
+export function createFetchConfig(config = {}) {
+  return {
+    config,
+    install(app) {
+      app.provide(FETCH_CONFIG_KEY, config)
+    }
+  }
+}
+
+/**
+ * Plugin vue3-utils untuk konfigurasi global
+ *
+ * @example
+ * app.use(vue3Utils, {
+ *   fetch: { baseURL: 'https://api.example.com', cacheTime: 60000 }
+ * })
+ */
+export const vue3Utils = {
+  install(app, { fetch } = {}) {
+    if (fetch) app.provide(FETCH_CONFIG_KEY, fetch)
+  }
+}
+
+/**
+ * Ambil konfigurasi fetch global dari context component (dipakai internal oleh useFetch).
+ * Di luar setup component selalu mengembalikan null.
+ *
+ * @returns {Object|null}
+ */
+export function injectFetchConfig() {
+  if (!getCurrentInstance()) return null
+  return inject(FETCH_CONFIG_KEY, null)
+}
+
+/**
+ * Terapkan default global ke opsi ofetch dan config useFetch (dipakai internal oleh useFetch)
+ *
+ * @param {Object|null} fetchConfig - Konfigurasi global
+ * @param {Object} options - Opsi ofetch per call
+ * @param {Object} config - Config useFetch per call
+ * @returns {{ options: Object, config: Object }}
+ */
+export function applyFetchDefaults(fetchConfig, options, config) {
+  if (!fetchConfig) return { options, config }
+
+  const mergedOptions = { ...pick(fetchConfig, REQUEST_OPTION_KEYS), ...options }
+  const headers = mergeHeaders(fetchConfig.headers, options.headers)
+  if (headers) mergedOptions.headers = headers
+
+  return {
+    options: mergedOptions,
+    config: { ...pick(fetchConfig, CONFIG_KEYS), ...config }
+  }
+}
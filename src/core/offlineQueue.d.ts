@@ -0,0 +1,161 @@
+import type { Ref } from "vue";
+import type { FetchOptions } from 'ofetch'
+import type { CacheStorage } from './cacheStorage'
+import type { FetchError } from './errors'
+
+/**
+ * Request yang disimpan di antrean offline
+ */
+export interface QueuedRequest {
+  /**
+   * ID unik entry di storage
+   */
+  id: string;
+
+  /**
+   * URL request
+   */
+  url: string;
+
+  /**
+   * Opsi request yang disimpan (method, headers, body, query, baseURL)
+   */
+  options: {
+    method?: string;
+    baseURL?: string;
+    query?: Record<string, any>;
+    params?: Record<string, any>;
+    body?: any;
+    headers?: Record<string, string>;
+    responseType?: string;
+  };
+
+  /**
+   * Waktu request masuk antrean (epoch ms)
+   */
+  createdAt: number;
+
+  /**
+   * Urutan untuk request yang dibuat di milidetik yang sama
+   */
+  sequence: number;
+}
+
+/**
+ * Nama storage bawaan untuk antrean offline
+ */
+export type OfflineQueueStorageName = 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB';
+
+/**
+ * Opsi createOfflineQueue. Interceptor ofetch (`onRequest`, `onRequestError`, `onResponse`,
+ * `onResponseError`) dijalankan untuk setiap replay, misalnya untuk memasang header auth
+ * pada request dari sesi sebelumnya. Hook dari opsi `enqueue` di sesi yang sama menang per hook
+ */
+export interface OfflineQueueOptions extends Pick<FetchOptions, 'onRequest' | 'onRequestError' | 'onResponse' | 'onResponseError'> {
+  /**
+   * Storage antrean: nama storage bawaan atau adapter custom
+   * @default 'localStorage'
+   */
+  storage?: OfflineQueueStorageName | CacheStorage;
+
+  /**
+   * Replay otomatis saat event `online` dan saat antrean dibuat (jika online)
+   * @default true
+   */
+  autoReplay?: boolean;
+
+  /**
+   * Menentukan apakah error replay adalah conflict
+   * @default status 409 atau 412
+   */
+  isConflict?: (error: FetchError) => boolean;
+
+  /**
+   * Dipanggil saat replay mendapat conflict. Return 'retry' untuk menyimpan request
+   * di antrean (replay berhenti), selain itu request dibuang
+   */
+  onConflict?: (error: FetchError, request: QueuedRequest) => 'retry' | void | Promise<'retry' | void>;
+
+  /**
+   * Dipanggil setelah request berhasil di-replay
+   */
+  onSuccess?: (data: any, request: QueuedRequest) => void;
+
+  /**
+   * Dipanggil untuk error non-conflict yang tidak bisa dicoba lagi (misalnya 400/422), request dibuang
+   */
+  onError?: (error: FetchError, request: QueuedRequest) => void;
+}
+
+/**
+ * Antrean request offline
+ */
+export interface OfflineQueue {
+  /**
+   * Jumlah request yang menunggu dikirim
+   */
+  pendingCount: Ref<number>;
+
+  /**
+   * True selama replay berjalan
+   */
+  isReplaying: Ref<boolean>;
+
+  /**
+   * Resolve setelah request sisa sesi sebelumnya dihitung (dan di-replay jika online)
+   */
+  ready: Promise<void>;
+
+  /**
+   * Tambahkan request ke antrean. Hook interceptor di options tidak disimpan ke storage,
+   * tapi dijalankan saat replay di sesi yang sama. `URLSearchParams` disimpan sebagai string
+   * @throws Error jika body tidak bisa disimpan (FormData, Blob, ArrayBuffer, stream)
+   */
+  enqueue(url: string, options?: Record<string, any>): Promise<QueuedRequest>;
+
+  /**
+   * Kirim ulang semua request berurutan. Berhenti di network error / 5xx
+   */
+  replay(): Promise<void>;
+
+  /**
+   * Semua request di antrean, urut berdasarkan waktu dibuat
+   */
+  getPending(): Promise<QueuedRequest[]>;
+
+  /**
+   * Hapus semua request tanpa dikirim
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Lepas listener `online`
+   */
+  dispose(): void;
+}
+
+/**
+ * True jika browser sedang offline
+ */
+export declare function isOffline(): boolean;
+
+/**
+ * Buat antrean request offline (disimpan di localStorage/IndexedDB, replay berurutan saat online)
+ *
+ * @example
+ * ```ts
+ * const queue = createOfflineQueue({
+ *   storage: 'indexedDB',
+ *   onConflict: (error, request) => notify(`Data ${request.url} sudah diubah`)
+ * })
+ *
+ * useFetch('/api/orders', { method: 'POST', body: order }, { offlineQueue: queue })
+ * queue.pendingCount.value
+ * ```
+ */
+export declare function createOfflineQueue(options?: OfflineQueueOptions): OfflineQueue;
+
+/**
+ * Antrean default (localStorage) yang dipakai oleh config `offlineQueue: true`
+ */
+export declare function getDefaultOfflineQueue(): OfflineQueue;
@@ -0,0 +1,308 @@
+import { ref } from 'vue'
+import { ofetch } from 'ofetch'
+import { createMemoryStorage, createWebStorage, createIndexedDBStorage } from './cacheStorage.js'
+import { normalizeFetchError } from './errors.js'
+
+/**
+ * Antrean request offline untuk useFetch
+ *
+ * Request non-GET yang dibuat saat offline (atau gagal karena network error) disimpan ke
+ * storage persistent, lalu dikirim ulang berurutan saat koneksi kembali (`online`).
+ * Entry memakai storage adapter yang sama dengan cache (`get`, `set`, `delete`, `keys`),
+ * sehingga bisa di localStorage, IndexedDB, memory, atau adapter custom.
+ */
+
+// Prefix key di Web Storage, terpisah dari cache useFetch
+const QUEUE_PREFIX = 'vue3-utils:queue:'
+
+// Factory storage antrean yang bisa dipilih lewat nama. Request di antrean tidak boleh di-evict
+const queueStorages = {
+  memory: () => createMemoryStorage({ maxEntries: Infinity }),
+  localStorage: () => createWebStorage(() => globalThis.localStorage, { prefix: QUEUE_PREFIX, maxEntries: Infinity }),
+  sessionStorage: () => createWebStorage(() => globalThis.sessionStorage, { prefix: QUEUE_PREFIX, maxEntries: Infinity }),
+  indexedDB: () => createIndexedDBStorage({ dbName: 'vue3-utils-queue', storeName: 'offline-queue', maxEntries: Infinity })
+}
+
+// Counter untuk urutan request yang dibuat di milidetik yang sama
+let sequence = 0
+
+// Antrean default untuk config `offlineQueue: true`
+let defaultQueue = null
+
+/**
+ * True jika browser sedang offline (`navigator.onLine === false`)
+ * @returns {boolean}
+ */
+export function isOffline() {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+// Helper: resolve nama storage antrean atau adapter custom
+function resolveQueueStorage(storage) {
+  if (typeof storage !== 'string') return storage
+
+  const factory = queueStorages[storage]
+  if (!factory) {
+    throw new Error(`[offlineQueue] Storage "${storage}" tidak dikenal`)
+  }
+  return factory()
+}
+
+// Hook ofetch yang ikut dijalankan saat replay
+const HOOK_KEYS = ['onRequest', 'onRequestError', 'onResponse', 'onResponseError']
+
+// Helper: ambil hook yang terisi dari object
+function pickHooks(source) {
+  const hooks = {}
+  for (const key of HOOK_KEYS) {
+    if (source[key]) hooks[key] = source[key]
+  }
+  return hooks
+}
+
+// Helper: true jika body bisa disimpan ke storage (JSON). FormData, Blob, ArrayBuffer dan stream
+// menjadi `{}` di localStorage atau gagal di IndexedDB, sehingga replay terkirim dengan body kosong
+function isStorableBody(body) {
+  if (body === null || typeof body !== 'object') return true
+  if (Array.isArray(body)) return true
+  const proto = Object.getPrototypeOf(body)
+  return proto === Object.prototype || proto === null
+}
+
+// Helper: ambil bagian opsi request yang bisa disimpan (tanpa signal dan hook)
+function toStoredOptions(options = {}) {
+  const stored = {}
+  for (const key of ['method', 'baseURL', 'query', 'params', 'body', 'responseType']) {
+    if (options[key] !== undefined) stored[key] = options[key]
+  }
+  if (options.headers) stored.headers = Object.fromEntries(new Headers(options.headers))
+
+  // URLSearchParams diserialisasi eksplisit menjadi string form-urlencoded
+  if (stored.body instanceof URLSearchParams) {
+    stored.headers = { 'content-type': 'application/x-www-form-urlencoded', ...stored.headers }
+    stored.body = stored.body.toString()
+  }
+  if (!isStorableBody(stored.body)) {
+    const type = stored.body.constructor?.name || 'object'
+    throw new Error(`[offlineQueue] Body ${type} tidak bisa disimpan ke antrean`)
+  }
+  return stored
+}
+
+// Helper: default conflict - 409 Conflict dan 412 Precondition Failed
+function defaultIsConflict(error) {
+  return error.status === 409 || error.status === 412
+}
+
+// Helper: error yang layak dicoba lagi nanti (network, 5xx, 429)
+function isTransientError(error) {
+  return error.kind === 'network' || error.kind === 'timeout' ||
+    error.status === 429 || error.status >= 500
+}
+
+/**
+ * Buat antrean request offline
+ *
+ * @param {Object} [options={}]
+ * @param {string|Object} [options.storage='localStorage'] - 'localStorage' | 'sessionStorage' | 'indexedDB' | 'memory'
+ *   atau adapter custom (`{ get, set, delete, keys }`)
+ * @param {boolean} [options.autoReplay=true] - Replay otomatis saat event `online` dan saat dibuat (jika online)
+ * @param {Function} [options.isConflict] - `(error) => boolean`. Default: status 409 dan 412
+ * @param {Function} [options.onConflict] - `(error, request) => 'retry' | void`. Return 'retry' untuk
+ *   menyimpan request di antrean (replay berhenti), selain itu request dibuang
+ * @param {Function} [options.onSuccess] - `(data, request) => void` setelah request berhasil di-replay
+ * @param {Function} [options.onError] - `(error, request) => void` untuk error non-conflict yang tidak bisa
+ *   dicoba lagi (misalnya 400/422), request dibuang
+ * @param {Function} [options.onRequest] - Interceptor ofetch untuk setiap replay (misalnya header auth). Hook tidak
+ *   bisa disimpan ke storage, jadi dipakai untuk request dari sesi sebelumnya. Hook di opsi `enqueue`
+ *   (termasuk dari config global useFetch) berlaku selama sesi yang sama dan menang per hook
+ * @param {Function} [options.onRequestError] - Interceptor ofetch saat replay gagal dikirim
+ * @param {Function} [options.onResponse] - Interceptor ofetch setelah response replay diterima
+ * @param {Function} [options.onResponseError] - Interceptor ofetch saat response replay error
+ * @returns {Object} Antrean dengan `pendingCount`, `isReplaying`, `ready`, `enqueue`, `replay`, `getPending`, `clear`, `dispose`.
+ *   `ready` resolve setelah request sisa sesi sebelumnya dihitung (dan di-replay jika online)
+ * @example
+ * const queue = createOfflineQueue({
+ *   storage: 'indexedDB',
+ *   onConflict: (error, request) => notify(`Data ${request.url} sudah diubah orang lain`)
+ * })
+ *
+ * useFetch('/api/orders', { method: 'POST', body: order }, { offlineQueue: queue })
+ * queue.pendingCount.value // jumlah request yang menunggu dikirim
+ */
+export function createOfflineQueue({
+  storage = 'localStorage',
+  autoReplay = true,
+  isConflict = defaultIsConflict,
+  onConflict,
+  onSuccess,
+  onError,
+  ...interceptors
+} = {}) {
+  const queueStorage = resolveQueueStorage(storage)
+  const queueHooks = pickHooks(interceptors)
+  // Hook per request dari enqueue, hanya di memory (function tidak bisa disimpan ke storage)
+  const requestHooks = new Map()
+  const pendingCount = ref(0)
+  const isReplaying = ref(false)
+
+  let replayPromise = null
+
+  // Semua request di antrean, urut berdasarkan waktu dibuat
+  const getPending = async () => {
+    const keys = await queueStorage.keys()
+    const entries = await Promise.all(keys.map((key) => queueStorage.get(key)))
+    const pending = entries
+      .filter(Boolean)
+      .map((entry) => entry.data)
+      .sort((a, b) => a.createdAt - b.createdAt || a.sequence - b.sequence)
+    pendingCount.value = pending.length
+    return pending
+  }
+
+  const remove = async (id) => {
+    requestHooks.delete(id)
+    await queueStorage.delete(id)
+    pendingCount.value = Math.max(0, pendingCount.value - 1)
+  }
+
+  /**
+   * Tambahkan request ke antrean
+   * @param {string} url - URL request
+   * @param {Object} [options={}] - Opsi ofetch (method, headers, body, query, baseURL). Hook interceptor
+   *   tidak disimpan ke storage, tapi dijalankan saat replay di sesi yang sama
+   * @returns {Promise<Object>} Request yang disimpan `{ id, url, options, createdAt }`
+   * @throws {Error} Jika body tidak bisa disimpan (FormData, Blob, ArrayBuffer, stream)
+   */
+  const enqueue = async (url, options = {}) => {
+    const storedOptions = toStoredOptions(options)
+    const createdAt = Date.now()
+    const order = sequence++
+    const request = {
+      id: `${createdAt.toString(36)}-${order.toString(36)}`,
+      url,
+      options: storedOptions,
+      createdAt,
+      sequence: order
+    }
+    await queueStorage.set(request.id, { data: request, timestamp: createdAt })
+    const hooks = pickHooks(options)
+    if (Object.keys(hooks).length > 0) requestHooks.set(request.id, hooks)
+    pendingCount.value++
+    return request
+  }
+
+  // Kirim satu request; return false jika replay harus berhenti
+  const send = async (request) => {
+    let data
+    try {
+      data = await ofetch(request.url, {
+        ...request.options,
+        ...queueHooks,
+        ...requestHooks.get(request.id)
+      })
+    } catch (err) {
+      const error = normalizeFetchError(err, { url: request.url })
+
+      // Masih offline / server bermasalah: simpan, coba lagi saat online berikutnya
+      if (isTransientError(error)) return false
+
+      if (isConflict(error)) {
+        const resolution = await onConflict?.(error, request)
+        if (resolution === 'retry') return false
+      } else {
+        onError?.(error, request)
+      }
+
+      await remove(request.id)
+      return true
+    }
+
+    // Di luar try: request sudah terkirim, error dari onSuccess tidak boleh memicu onError atau remove kedua
+    await remove(request.id)
+    try {
+      onSuccess?.(data, request)
+    } catch (err) {
+      console.error("Error in onSuccess callback:", err)
+    }
+    return true
+  }
+
+  /**
+   * Kirim ulang semua request di antrean secara berurutan.
+   * Berhenti di request pertama yang gagal karena network error / 5xx.
+   * @returns {Promise<void>}
+   */
+  const replay = () => {
+    if (replayPromise) return replayPromise
+
+    const run = async () => {
+      isReplaying.value = true
+      try {
+        while (!isOffline()) {
+          const [next] = await getPending()
+          if (!next || !(await send(next))) break
+        }
+      } finally {
+        isReplaying.value = false
+      }
+    }
+
+    replayPromise = run().finally(() => {
+      replayPromise = null
+    })
+    return replayPromise
+  }
+
+  /**
+   * Hapus semua request di antrean tanpa dikirim
+   * @returns {Promise<void>}
+   */
+  const clear = async () => {
+    const keys = await queueStorage.keys()
+    await Promise.all(keys.map((key) => queueStorage.delete(key)))
+    requestHooks.clear()
+    pendingCount.value = 0
+  }
+
+  const hasWindow = typeof window !== 'undefined'
+  if (hasWindow && autoReplay) {
+    window.addEventListener('online', replay)
+  }
+
+  /**
+   * Lepas listener `online`
+   */
+  const dispose = () => {
+    if (hasWindow) window.removeEventListener('online', replay)
+  }
+
+  // Hitung request yang tersisa dari sesi sebelumnya, kirim jika sudah online
+  const ready = getPending().then((pending) => {
+    if (hasWindow && autoReplay && pending.length > 0 && !isOffline()) return replay()
+  })
+
+  return {
+    pendingCount,
+    isReplaying,
+    ready,
+    enqueue,
+    replay,
+    getPending,
+    clear,
+    dispose
+  }
+}
+
+/**
+ * Antrean default (localStorage) yang dipakai oleh config `offlineQueue: true`.
+ * Dibuat saat pertama kali dipanggil.
+ *
+ * @returns {Object} Antrean offline
+ * @example
+ * const { pendingCount } = getDefaultOfflineQueue()
+ */
+export function getDefaultOfflineQueue() {
+  if (!defaultQueue) defaultQueue = createOfflineQueue()
+  return defaultQueue
+}
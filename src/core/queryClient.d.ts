@@ -0,0 +1,135 @@
+import type { FetchOptions } from 'ofetch'
+import type { CacheStorage, CacheStorageName } from './cacheStorage'
+
+/**
+ * Metadata query yang dipakai untuk mencocokkan filter invalidation
+ */
+export interface QueryMeta {
+  /**
+   * Cache key (contoh: 'GET:/api/users')
+   */
+  key: string
+
+  /**
+   * URL request
+   */
+  url?: string
+
+  /**
+   * Tags dari config useFetch
+   */
+  tags?: string[]
+}
+
+/**
+ * Filter invalidation:
+ * - string: prefix URL atau cache key
+ * - function: predicate `(key, meta) => boolean`
+ * - `{ key }`: cache key persis
+ * - `{ tags }`: minimal satu tag cocok
+ */
+export type QueryFilter =
+  | string
+  | ((key: string, meta: QueryMeta) => boolean)
+  | { key: string }
+  | { tags: string[] }
+
+/**
+ * Observer query yang terdaftar di registry
+ */
+export interface QueryObserver {
+  getMeta: () => QueryMeta
+  invalidate: () => Promise<any>
+  getData?: () => any
+  setData?: (data: any) => void
+}
+
+export interface CreateQueryKeyConfig {
+  /**
+   * Nama header yang ikut membedakan cache key
+   * @default []
+   */
+  varyHeaders?: string[]
+}
+
+export interface QueryDataOptions {
+  /**
+   * Storage cache yang dibaca/di-update
+   * @default Storage global
+   */
+  storage?: CacheStorageName | CacheStorage
+}
+
+export interface InvalidateQueriesOptions {
+  /**
+   * Storage yang di-scan untuk entry yang cocok
+   * @default Storage global
+   */
+  storage?: CacheStorageName | CacheStorage
+}
+
+/**
+ * Membuat cache key untuk request useFetch.
+ * Format `METHOD:url` (url digabung dengan `options.baseURL`), ditambah `#hash` dari query, body dan vary-headers
+ * (serialisasi stabil, urutan key object tidak berpengaruh)
+ *
+ * @example
+ * ```ts
+ * createQueryKey('/api/users', { query: { page: 2 } })
+ * ```
+ */
+export declare function createQueryKey(
+  url: string,
+  options?: FetchOptions,
+  config?: CreateQueryKeyConfig
+): string
+
+/**
+ * Mendaftarkan observer query (dipakai internal oleh useFetch)
+ * @returns Function untuk unregister observer
+ */
+export declare function registerQuery(observer: QueryObserver): () => void
+
+/**
+ * Invalidate cache query dari mana saja. Entry cache yang cocok dihapus
+ * dan semua useFetch aktif yang cocok otomatis fetch ulang
+ *
+ * @example
+ * ```ts
+ * await invalidateQueries('/api/users')
+ * await invalidateQueries({ tags: ['users'] })
+ * await invalidateQueries((key, { url }) => url?.includes('/posts/') ?? false)
+ * ```
+ */
+export declare function invalidateQueries(
+  filter: QueryFilter,
+  options?: InvalidateQueriesOptions
+): Promise<void>
+
+/**
+ * Ambil data query untuk cache key tertentu, dari cache atau dari useFetch aktif
+ *
+ * @example
+ * ```ts
+ * const users = await getQueryData<User[]>(createQueryKey('/api/users', { baseURL: API_BASE_URL }))
+ * ```
+ */
+export declare function getQueryData<T = any>(
+  key: string,
+  options?: QueryDataOptions
+): Promise<T | undefined>
+
+/**
+ * Ubah data query secara manual (optimistic update).
+ * Entry cache yang ada di-update dan useFetch aktif dengan key yang sama ikut ter-update
+ *
+ * @example
+ * ```ts
+ * await setQueryData<Todo[]>(createQueryKey('/api/todos', { baseURL: API_BASE_URL }), (todos = []) => [...todos, newTodo])
+ * ```
+ */
+export declare function setQueryData<T = any>(
+  key: string,
+  updater: T | ((oldData: T | undefined) => T),
+  options?: QueryDataOptions
+): Promise<T>
@@ -0,0 +1,224 @@
+import { resolveCacheStorage } from './cacheStorage.js'
+
+/**
+ * Registry global untuk query useFetch
+ *
+ * Menyimpan observer (instance useFetch yang sedang aktif) sehingga cache bisa
+ * di-invalidate dari mana saja dan observer yang terkait otomatis fetch ulang.
+ */
+
+// Observer aktif: { getMeta: () => { key, url, tags }, invalidate: () => Promise,
+//                  getData: () => any, setData: (data) => void }
+const observers = new Set()
+
+// Helper: serialize value secara stabil (urutan key object tidak berpengaruh)
+function stableSerialize(value) {
+  if (value === undefined) return ''
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (value instanceof URLSearchParams) {
+    return stableSerialize([...value.entries()].sort())
+  }
+  if (typeof FormData !== 'undefined' && value instanceof FormData) {
+    return stableSerialize([...value.entries()])
+  }
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return `blob:${value.size}:${value.type}:${value.name ?? ''}`
+  }
+  if (typeof value.toJSON === 'function') return stableSerialize(value.toJSON())
+  if (Array.isArray(value)) return `[${value.map(stableSerialize).join(',')}]`
+
+  const props = Object.keys(value)
+    .filter((prop) => value[prop] !== undefined)
+    .sort()
+    .map((prop) => `${JSON.stringify(prop)}:${stableSerialize(value[prop])}`)
+  return `{${props.join(',')}}`
+}
+
+// Helper: hash string 53-bit (cyrb53), cukup untuk cache key
+function hashString(input) {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+// Helper: ambil header tertentu (case-insensitive) dari format headers apapun
+function pickHeaders(headers, names) {
+  if (!headers || names.length === 0) return undefined
+
+  const normalized = new Headers(headers)
+  const picked = {}
+  for (const name of names) {
+    const value = normalized.get(name)
+    if (value !== null) picked[name.toLowerCase()] = value
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined
+}
+
+// Helper: gabungkan baseURL dan path (seperti ofetch), URL absolut dipakai apa adanya
+function resolveRequestUrl(url, baseURL) {
+  if (!baseURL || baseURL === '/' || /^[a-z][a-z\d+.-]*:\/\//i.test(url) || url.startsWith(baseURL)) return url
+  return `${baseURL.replace(/\/$/, '')}/${url.replace(/^\//, '')}`
+}
+
+/**
+ * Membuat cache key untuk request useFetch
+ * Format: `METHOD:url` (url sudah digabung dengan `baseURL`), ditambah `#hash` jika ada query, body atau vary-headers.
+ * Hash dibuat dari serialisasi stabil sehingga urutan key object tidak berpengaruh.
+ *
+ * @param {string} url - URL request
+ * @param {Object} [options={}] - Opsi ofetch (method, baseURL, query/params, body, headers)
+ * @param {Object} [config={}]
+ * @param {string[]} [config.varyHeaders=[]] - Nama header yang ikut membedakan cache
+ * @returns {string} Cache key
+ * @example
+ * createQueryKey('/api/users', { query: { page: 2, sort: 'name' } })
+ * // 'GET:/api/users#1x2y3z...'
+ */
+export function createQueryKey(url, options = {}, { varyHeaders = [] } = {}) {
+  const method = (options.method || 'GET').toUpperCase()
+  // baseURL ikut di key agar request ke backend berbeda tidak berbagi cache / dedupe
+  const baseKey = `${method}:${resolveRequestUrl(url, options.baseURL)}`
+
+  const query = options.query || options.params
+    ? { ...options.params, ...options.query }
+    : undefined
+  const headers = pickHeaders(options.headers, varyHeaders)
+
+  if (query === undefined && options.body === undefined && headers === undefined) {
+    return baseKey
+  }
+
+  return `${baseKey}#${hashString(stableSerialize({ query, body: options.body, headers }))}`
+}
+
+// Helper: baca entry cache tanpa mengubah urutan LRU / statistik
+async function peekEntry(adapter, key) {
+  return typeof adapter.peek === 'function' ? adapter.peek(key) : adapter.get(key)
+}
+
+// Helper: cek apakah query cocok dengan filter invalidation
+function matchesFilter(filter, meta) {
+  const { key, url = '', tags = [] } = meta
+
+  if (typeof filter === 'string') {
+    return url.startsWith(filter) || key.startsWith(filter)
+  }
+  if (typeof filter === 'function') {
+    return Boolean(filter(key, meta))
+  }
+  if (filter?.key !== undefined) {
+    return key === filter.key
+  }
+  if (Array.isArray(filter?.tags)) {
+    return filter.tags.some((tag) => tags.includes(tag))
+  }
+  return false
+}
+
+/**
+ * Mendaftarkan observer query (dipakai internal oleh useFetch)
+ *
+ * @param {Object} observer
+ * @param {() => { key: string, url?: string, tags?: string[] }} observer.getMeta - Metadata query saat ini
+ * @param {() => Promise<any>} observer.invalidate - Dipanggil saat query cocok dengan invalidation
+ * @param {() => any} [observer.getData] - Data query yang sedang ditampilkan
+ * @param {(data: any) => void} [observer.setData] - Dipanggil saat data query diubah via setQueryData
+ * @returns {Function} Function untuk unregister observer
+ */
+export function registerQuery(observer) {
+  observers.add(observer)
+  return () => observers.delete(observer)
+}
+
+/**
+ * Invalidate cache query dari mana saja (misalnya setelah mutation)
+ * Entry cache yang cocok dihapus dan semua useFetch aktif yang cocok otomatis fetch ulang.
+ *
+ * @param {string|Function|{ key?: string, tags?: string[] }} filter - Prefix URL/key,
+ *   predicate `(key, meta) => boolean`, `{ key }` untuk key persis, atau `{ tags }`
+ * @param {Object} [options={}]
+ * @param {string|Object} [options.storage] - Storage yang di-scan (default: storage global)
+ * @returns {Promise<void>} Resolve setelah semua observer selesai fetch ulang
+ * @example
+ * // Berdasarkan prefix URL
+ * await invalidateQueries('/api/users')
+ *
+ * // Berdasarkan tags dari config useFetch
+ * await invalidateQueries({ tags: ['users'] })
+ *
+ * // Berdasarkan predicate
+ * await invalidateQueries((key, { url }) => url.includes('/posts/'))
+ */
+export async function invalidateQueries(filter, { storage } = {}) {
+  const adapter = resolveCacheStorage(storage)
+
+  for (const key of await adapter.keys()) {
+    const entry = await peekEntry(adapter, key)
+    if (entry && matchesFilter(filter, { key, url: entry.url, tags: entry.tags })) {
+      await adapter.delete(key)
+    }
+  }
+
+  const matched = [...observers].filter((observer) => matchesFilter(filter, observer.getMeta()))
+  await Promise.all(matched.map((observer) => observer.invalidate()))
+}
+
+/**
+ * Ambil data query untuk cache key tertentu, dari cache atau dari useFetch aktif
+ * (untuk query tanpa cache)
+ *
+ * @param {string} key - Cache key (lihat createQueryKey; baseURL global ikut menjadi bagian key)
+ * @param {Object} [options={}]
+ * @param {string|Object} [options.storage] - Storage yang dibaca (default: storage global)
+ * @returns {Promise<any>} Data query, atau undefined jika tidak ada
+ * @example
+ * const users = await getQueryData(createQueryKey('/api/users', { baseURL: API_BASE_URL }))
+ */
+export async function getQueryData(key, { storage } = {}) {
+  const adapter = resolveCacheStorage(storage)
+  const entry = await peekEntry(adapter, key)
+  if (entry) return entry.data
+
+  for (const observer of observers) {
+    if (observer.getMeta().key === key && observer.getData) return observer.getData()
+  }
+  return undefined
+}
+
+/**
+ * Ubah data query secara manual (misalnya optimistic update dari useMutation).
+ * Entry cache yang ada di-update (timestamp dan expiry tetap), dan semua useFetch
+ * aktif dengan cache key yang sama langsung menampilkan data baru.
+ *
+ * @param {string} key - Cache key (lihat createQueryKey)
+ * @param {any|Function} updater - Data baru, atau function `(oldData) => newData`
+ * @param {Object} [options={}]
+ * @param {string|Object} [options.storage] - Storage yang di-update (default: storage global)
+ * @returns {Promise<any>} Data baru
+ * @example
+ * await setQueryData(createQueryKey('/api/todos', { baseURL: API_BASE_URL }), (todos = []) => [...todos, newTodo])
+ */
+export async function setQueryData(key, updater, { storage } = {}) {
+  const adapter = resolveCacheStorage(storage)
+  const data = typeof updater === 'function'
+    ? updater(await getQueryData(key, { storage }))
+    : updater
+  const entry = await peekEntry(adapter, key)
+
+  if (entry) {
+    await adapter.set(key, { ...entry, data })
+  }
+
+  for (const observer of observers) {
+    if (observer.getMeta().key === key) observer.setData?.(data)
+  }
+
+  return data
+}
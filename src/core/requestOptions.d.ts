@@ -0,0 +1,20 @@
+import type { MaybeRefOrGetter } from "../wrapper/useFetch";
+
+/**
+ * Resolve value yang bisa berupa ref, getter, atau plain value
+ * @param source - Ref, getter, atau plain value
+ */
+export function resolveValue<T>(source: MaybeRefOrGetter<T>): T;
+
+/**
+ * Salin opsi request dan resolve `query`/`body` yang reactive
+ * @param options - Opsi request (ofetch)
+ */
+export function resolveRequestOptions<T extends Record<string, any>>(options: T): T;
+
+/**
+ * Key stabil dari url, query dan body yang sudah di-resolve, dipakai sebagai source `watch`
+ * @param url - URL (string, ref, atau getter)
+ * @param options - Opsi request dengan `query`/`body` yang bisa reactive
+ */
+export function getRequestSourceKey(url: MaybeRefOrGetter<string>, options: Record<string, any>): string;
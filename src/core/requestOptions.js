@@ -0,0 +1,46 @@
+import { unref } from "vue";
+import { createQueryKey } from './queryClient.js'
+
+/**
+ * Helper resolve opsi request untuk composable fetch (useFetch, useInfiniteFetch)
+ *
+ * Opsi `query` dan `body` boleh berupa ref, getter, atau plain value; nilainya
+ * di-resolve setiap kali request dibuat.
+ */
+
+/**
+ * Resolve value yang bisa berupa ref, getter, atau plain value
+ *
+ * @param {*} source - Ref, getter, atau plain value
+ * @returns {*} Nilai saat ini
+ */
+export function resolveValue(source) {
+  return typeof source === 'function' ? source() : unref(source)
+}
+
+/**
+ * Salin opsi request dan resolve `query`/`body` yang reactive
+ *
+ * @param {Object} options - Opsi request (ofetch)
+ * @returns {Object} Opsi baru dengan `query`/`body` yang sudah di-resolve
+ */
+export function resolveRequestOptions(options) {
+  const resolved = { ...options }
+  if ('query' in options) resolved.query = resolveValue(options.query)
+  if ('body' in options) resolved.body = resolveValue(options.body)
+  return resolved
+}
+
+/**
+ * Key stabil dari url, query dan body yang sudah di-resolve, dipakai sebagai source `watch`.
+ * Berupa string sehingga watcher hanya berjalan saat nilainya berubah, bukan setiap kali
+ * dependency getter (misalnya object `data` query lain) diganti dengan nilai yang sama
+ *
+ * @param {*} url - URL (string, ref, atau getter)
+ * @param {Object} options - Opsi request dengan `query`/`body` yang bisa reactive
+ * @returns {string} Key request
+ */
+export function getRequestSourceKey(url, options) {
+  const { query, body } = resolveRequestOptions(options)
+  return createQueryKey(resolveValue(url), { query, body })
+}
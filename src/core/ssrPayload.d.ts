@@ -0,0 +1,75 @@
+/**
+ * Entry payload SSR untuk satu cache key
+ */
+export interface FetchPayloadEntry<T = any> {
+  /**
+   * Data hasil fetch di server
+   */
+  data: T
+
+  /**
+   * Waktu fetch di server (ms)
+   */
+  timestamp: number
+}
+
+/**
+ * Payload SSR useFetch: `{ [cacheKey]: { data, timestamp } }`
+ */
+export type FetchPayload = Record<string, FetchPayloadEntry>
+
+/**
+ * True jika berjalan di server (tidak ada window)
+ */
+export declare function isServer(): boolean
+
+/**
+ * Catat hasil fetch ke payload SSR context (dipakai internal oleh useFetch)
+ */
+export declare function recordFetchPayload(
+  ssrContext: Record<string, any> | undefined,
+  key: string,
+  data: any
+): void
+
+/**
+ * Ambil data hydration untuk cache key (dipakai internal oleh useFetch).
+ * Entry dihapus setelah hydration selesai (task berikutnya), bukan saat pertama dibaca
+ */
+export declare function takeHydratedEntry(key: string): FetchPayloadEntry | undefined
+
+/**
+ * Ambil payload useFetch dari SSR context setelah render selesai
+ *
+ * @example
+ * ```ts
+ * const ctx = {}
+ * const html = await renderToString(app, ctx)
+ * const payload = getFetchPayload(ctx)
+ * ```
+ */
+export declare function getFetchPayload(ssrContext: Record<string, any> | undefined): FetchPayload
+
+/**
+ * Serialize payload useFetch menjadi string JSON yang aman di-embed di tag `<script>`
+ *
+ * @example
+ * ```ts
+ * const html = await renderToString(app, ctx)
+ * const script = `<script>window.__VUE3_UTILS_FETCH__ = ${serializeFetchPayload(ctx)}</script>`
+ * ```
+ */
+export declare function serializeFetchPayload(ssrContext: Record<string, any> | undefined): string
+
+/**
+ * Hydrate payload SSR ke hydration cache client. Panggil sebelum `app.mount()`
+ *
+ * @param payload - Payload object atau string JSON (default: `window.__VUE3_UTILS_FETCH__`)
+ *
+ * @example
+ * ```ts
+ * hydrateFetchPayload(window.__VUE3_UTILS_FETCH__)
+ * app.mount('#app')
+ * ```
+ */
+export declare function hydrateFetchPayload(payload?: FetchPayload | string): void
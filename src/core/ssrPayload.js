@@ -0,0 +1,107 @@
+/**
+ * Payload SSR untuk useFetch
+ *
+ * Di server, hasil useFetch yang di-await lewat `onServerPrefetch` dicatat di SSR context
+ * (per request, tidak bocor antar user). App meng-embed payload tersebut ke HTML, lalu di
+ * client `hydrateFetchPayload` memasukkannya ke hydration cache sehingga render pertama
+ * memakai data server tanpa request kedua.
+ */
+
+// Key di SSR context tempat payload useFetch disimpan
+const SSR_CONTEXT_KEY = '__vue3UtilsFetchPayload'
+
+// Nama global default untuk payload yang di-embed di HTML
+const WINDOW_PAYLOAD_KEY = '__VUE3_UTILS_FETCH__'
+
+// Hydration cache di client: key -> { data, timestamp }. Entry yang sudah dibaca tetap tersedia
+// sampai hydration selesai (task berikutnya), agar semua komponen dengan key yang sama mendapat data server
+const hydratedEntries = new Map()
+
+/**
+ * True jika berjalan di server (tidak ada window)
+ * @returns {boolean}
+ */
+export function isServer() {
+  return typeof window === 'undefined'
+}
+
+/**
+ * Catat hasil fetch ke payload SSR context (dipakai internal oleh useFetch)
+ *
+ * @param {Object} ssrContext - SSR context dari `useSSRContext()`
+ * @param {string} key - Cache key
+ * @param {any} data - Data hasil fetch
+ */
+export function recordFetchPayload(ssrContext, key, data) {
+  if (!ssrContext) return
+  ssrContext[SSR_CONTEXT_KEY] = ssrContext[SSR_CONTEXT_KEY] || {}
+  ssrContext[SSR_CONTEXT_KEY][key] = { data, timestamp: Date.now() }
+}
+
+/**
+ * Ambil data hydration untuk cache key (dipakai internal oleh useFetch).
+ * Entry dihapus setelah hydration selesai (task berikutnya), bukan saat pertama dibaca,
+ * sehingga beberapa komponen dengan key yang sama di render pertama tidak request ulang
+ *
+ * @param {string} key - Cache key
+ * @returns {{ data: any, timestamp: number }|undefined}
+ */
+export function takeHydratedEntry(key) {
+  const entry = hydratedEntries.get(key)
+  if (entry) {
+    setTimeout(() => {
+      if (hydratedEntries.get(key) === entry) hydratedEntries.delete(key)
+    }, 0)
+  }
+  return entry
+}
+
+/**
+ * Ambil payload useFetch dari SSR context setelah render selesai
+ *
+ * @param {Object} ssrContext - Context yang dipakai saat `renderToString(app, ssrContext)`
+ * @returns {Object} Payload `{ [cacheKey]: { data, timestamp } }`
+ * @example
+ * const ctx = {}
+ * const html = await renderToString(app, ctx)
+ * const payload = getFetchPayload(ctx)
+ */
+export function getFetchPayload(ssrContext) {
+  return ssrContext?.[SSR_CONTEXT_KEY] || {}
+}
+
+/**
+ * Serialize payload useFetch menjadi string JSON yang aman di-embed di tag `<script>`
+ *
+ * @param {Object} ssrContext - Context yang dipakai saat `renderToString(app, ssrContext)`
+ * @returns {string} JSON dengan karakter `<`, `>`, `&`, U+2028 dan U+2029 di-escape
+ * @example
+ * const html = await renderToString(app, ctx)
+ * res.send(`${html}<script>window.__VUE3_UTILS_FETCH__ = ${serializeFetchPayload(ctx)}</script>`)
+ */
+export function serializeFetchPayload(ssrContext) {
+  return JSON.stringify(getFetchPayload(ssrContext))
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+/**
+ * Hydrate payload SSR ke hydration cache client. Panggil sebelum `app.mount()`.
+ * useFetch dengan cache key yang sama memakai data ini untuk render pertama tanpa request.
+ *
+ * @param {Object|string} [payload=window.__VUE3_UTILS_FETCH__] - Payload object atau string JSON
+ * @example
+ * hydrateFetchPayload(window.__VUE3_UTILS_FETCH__)
+ * app.mount('#app')
+ */
+export function hydrateFetchPayload(payload = globalThis[WINDOW_PAYLOAD_KEY]) {
+  if (!payload) return
+
+  const entries = typeof payload === 'string' ? JSON.parse(payload) : payload
+  for (const [key, entry] of Object.entries(entries)) {
+    hydratedEntries.set(key, entry)
+  }
+}
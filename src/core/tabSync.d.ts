@@ -0,0 +1,98 @@
+/**
+ * Pesan antar tab
+ */
+export interface TabSyncMessage {
+  /**
+   * Jenis pesan, misalnya 'refreshed' setelah access token di-refresh
+   */
+  type: string
+
+  /**
+   * Access token baru (untuk pesan 'refreshed')
+   */
+  token?: string
+
+  /**
+   * Id tab pengirim
+   */
+  source?: string
+
+  [key: string]: any
+}
+
+/**
+ * Opsi untuk createTabSync
+ */
+export interface TabSyncOptions {
+  /**
+   * Nama channel, lock dan key storage
+   * @default 'vue3-utils:auth'
+   */
+  name?: string
+
+  /**
+   * Umur maksimum lease lock fallback di localStorage (ms), mencegah lock tertahan
+   * selamanya jika tab pemegang lock ditutup di tengah refresh
+   * @default 10000
+   */
+  lockTimeout?: number
+
+  /**
+   * Dipanggil dengan pesan dari tab lain
+   */
+  onMessage?: (message: TabSyncMessage) => void
+}
+
+/**
+ * Channel sinkronisasi antar tab
+ */
+export interface TabSync {
+  /**
+   * Jalankan callback sambil memegang lock eksklusif antar tab
+   * (Web Locks API, fallback lease di localStorage)
+   */
+  withLock<T>(callback: () => Promise<T> | T): Promise<T>
+
+  /**
+   * Kirim pesan ke semua tab lain (BroadcastChannel, fallback event `storage`)
+   */
+  broadcast(message: TabSyncMessage): void
+
+  /**
+   * Kirim hasil refresh ke tab lain dan simpan penandanya (`{ source, sharedAt }`) di localStorage
+   * untuk tab yang memegang lock berikutnya. Token tidak pernah disimpan di localStorage
+   */
+  shareResult(result: TabSyncMessage): void
+
+  /**
+   * Hasil refresh yang dibagikan sejak `since` (epoch ms), null jika tidak ada.
+   * Dibaca di dalam lock sebelum memutuskan untuk refresh sendiri; menunggu sebentar
+   * jika penandanya sudah ada tetapi pesannya belum diterima
+   */
+  getSharedResult(since: number): Promise<(TabSyncMessage & { sharedAt: number }) | null>
+
+  /**
+   * Hapus hasil refresh yang dibagikan (misalnya saat logout)
+   */
+  clearSharedResult(): void
+
+  /**
+   * Tutup channel dan lepas listener `storage`
+   */
+  close(): void
+}
+
+/**
+ * Buat channel sinkronisasi token antar tab
+ *
+ * @param options - Nama channel, timeout lock dan handler pesan
+ * @returns Object dengan `withLock`, `broadcast`, `shareResult`, `getSharedResult`, `clearSharedResult` dan `close`
+ *
+ * @example
+ * ```js
+ * const sync = createTabSync({ onMessage: ({ token }) => saveToken(token) })
+ * const token = await sync.withLock(() => refresh())
+ * sync.broadcast({ type: 'refreshed', token })
+ * ```
+ */
+export declare function createTabSync(options?: TabSyncOptions): TabSync
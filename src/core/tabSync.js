@@ -0,0 +1,209 @@
+/**
+ * Koordinasi refresh token antar tab untuk FetchManager
+ *
+ * Beberapa tab yang memakai refresh token yang di-rotate tidak boleh refresh bersamaan,
+ * karena refresh token lama langsung tidak berlaku setelah dipakai satu tab.
+ * - Lock (Web Locks API, fallback lease di localStorage) memastikan hanya satu tab yang refresh
+ * - Pesan (BroadcastChannel, fallback event `storage`) mengirim token baru ke tab lain
+ * - Hasil refresh terakhir dikirim lewat pesan dan hanya penandanya (`{ source, sharedAt }`, tanpa token)
+ *   yang disimpan di localStorage, agar tab berikutnya yang memegang lock tahu harus memakai hasil
+ *   tersebut (store token per tab seperti sessionStorage/memory)
+ */
+
+// Interval cek lease lock dan jeda konfirmasi kepemilikan lock (ms)
+const LOCK_POLL_INTERVAL = 50
+const LOCK_SETTLE_DELAY = 20
+
+// Batas tunggu pesan hasil refresh yang penandanya sudah ada di storage (ms)
+const RESULT_WAIT_TIMEOUT = 1000
+
+// Helper: tunggu beberapa milidetik
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Helper: id unik per tab untuk pesan dan lease lock
+function createTabId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+// Helper: localStorage jika tersedia dan bisa dipakai
+function getLocalStorage() {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null
+  } catch {
+    return null
+  }
+}
+
+// Helper: parse JSON dari storage, null jika rusak
+function parseJSON(value) {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+// Helper: lock via lease di localStorage, dipakai jika Web Locks API tidak tersedia
+async function withStorageLock(storage, key, owner, timeout, callback) {
+  while (true) {
+    const lease = parseJSON(storage.getItem(key))
+    if (!lease || lease.expiresAt <= Date.now()) {
+      storage.setItem(key, JSON.stringify({ owner, expiresAt: Date.now() + timeout }))
+      // Tab lain bisa menulis di waktu yang hampir sama, pemenang adalah penulis terakhir
+      await wait(LOCK_SETTLE_DELAY)
+      if (parseJSON(storage.getItem(key))?.owner === owner) break
+    }
+    await wait(LOCK_POLL_INTERVAL)
+  }
+
+  try {
+    return await callback()
+  } finally {
+    if (parseJSON(storage.getItem(key))?.owner === owner) storage.removeItem(key)
+  }
+}
+
+/**
+ * Buat channel sinkronisasi token antar tab
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.name='vue3-utils:auth'] - Nama channel, lock dan key storage
+ * @param {number} [options.lockTimeout=10000] - Umur maksimum lease lock fallback (ms), mencegah
+ *   lock tertahan selamanya jika tab pemegang lock ditutup di tengah refresh
+ * @param {Function} [options.onMessage] - Dipanggil dengan pesan dari tab lain (`{ type, token }`)
+ * @returns {{ withLock: Function, broadcast: Function, shareResult: Function, getSharedResult: Function,
+ *   clearSharedResult: Function, close: Function }}
+ * @example
+ * const sync = createTabSync({ onMessage: ({ token }) => saveToken(token) })
+ * const token = await sync.withLock(() => refresh())
+ * sync.broadcast({ type: 'refreshed', token })
+ */
+export function createTabSync({ name = 'vue3-utils:auth', lockTimeout = 10000, onMessage } = {}) {
+  const tabId = createTabId()
+  const storage = getLocalStorage()
+  const messageKey = `${name}:message`
+  const lockKey = `${name}:lock`
+  const resultKey = `${name}:result`
+
+  let channel = null
+  let handleStorage = null
+  // Hasil refresh terakhir (berisi token) hanya disimpan di memory tab ini
+  let lastResult = null
+  const resultWaiters = new Set()
+
+  // Terima pesan dari tab lain; pesan hasil refresh (punya `sharedAt`) juga diingat untuk getSharedResult
+  const receive = (message) => {
+    if (!message || message.source === tabId) return
+    if (message.sharedAt) {
+      lastResult = message
+      resultWaiters.forEach((resolve) => resolve())
+    }
+    onMessage?.(message)
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(name)
+    channel.onmessage = (event) => receive(event.data)
+  } else if (storage && typeof window !== 'undefined') {
+    // Event `storage` hanya dikirim ke tab lain, tidak ke tab yang menulis
+    handleStorage = (event) => {
+      if (event.key === messageKey) receive(parseJSON(event.newValue))
+    }
+    window.addEventListener('storage', handleStorage)
+  }
+
+  /**
+   * Jalankan callback sambil memegang lock eksklusif antar tab
+   * @param {Function} callback - Fungsi async yang dijalankan saat lock didapat
+   * @returns {Promise<any>} Hasil callback
+   */
+  const withLock = (callback) => {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+    if (locks?.request) return locks.request(lockKey, () => callback())
+    if (storage) return withStorageLock(storage, lockKey, tabId, lockTimeout, callback)
+    return callback()
+  }
+
+  /**
+   * Kirim pesan ke semua tab lain
+   * @param {Object} message - Pesan (`{ type, ... }`)
+   */
+  const broadcast = (message) => {
+    const payload = { ...message, source: tabId }
+    if (channel) {
+      channel.postMessage(payload)
+    } else if (handleStorage) {
+      // Tulis lalu hapus: tab lain tetap menerima event, token tidak tertinggal di storage
+      storage.setItem(messageKey, JSON.stringify({ ...payload, sentAt: Date.now() }))
+      storage.removeItem(messageKey)
+    }
+  }
+
+  // Helper: hasil refresh di memory yang cocok dengan penanda di storage
+  const matchResult = (marker) =>
+    lastResult && lastResult.source === marker.source && lastResult.sharedAt === marker.sharedAt
+      ? lastResult
+      : null
+
+  /**
+   * Kirim hasil refresh ke tab lain dan simpan penandanya untuk tab yang memegang lock berikutnya.
+   * Token hanya dikirim lewat pesan, storage hanya berisi `{ source, sharedAt }`
+   * @param {Object} result - Hasil refresh (`{ type, token, ... }`)
+   */
+  const shareResult = (result) => {
+    const marker = { source: tabId, sharedAt: Date.now() }
+    lastResult = { ...result, ...marker }
+    storage?.setItem(resultKey, JSON.stringify(marker))
+    broadcast({ ...result, sharedAt: marker.sharedAt })
+  }
+
+  /**
+   * Ambil hasil refresh yang dibagikan sejak `since`, dibaca di dalam lock.
+   * Jika penanda sudah ada tetapi pesannya belum sampai, tunggu sebentar
+   * @param {number} since - Epoch ms; hasil yang lebih lama diabaikan
+   * @returns {Promise<Object|null>} Hasil refresh atau null jika tidak ada
+   */
+  const getSharedResult = async (since) => {
+    const marker = storage ? parseJSON(storage.getItem(resultKey)) : null
+    if (!marker || !(marker.sharedAt >= since)) return null
+    if (matchResult(marker)) return matchResult(marker)
+
+    await new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        resultWaiters.delete(check)
+        resolve()
+      }
+      const check = () => {
+        if (matchResult(marker)) done()
+      }
+      const timer = setTimeout(done, RESULT_WAIT_TIMEOUT)
+      resultWaiters.add(check)
+    })
+    return matchResult(marker)
+  }
+
+  /**
+   * Hapus hasil refresh yang disimpan (misalnya saat logout)
+   */
+  const clearSharedResult = () => {
+    lastResult = null
+    storage?.removeItem(resultKey)
+  }
+
+  /**
+   * Tutup channel dan lepas listener `storage`
+   */
+  const close = () => {
+    lastResult = null
+    channel?.close()
+    channel = null
+    if (handleStorage) {
+      window.removeEventListener('storage', handleStorage)
+      handleStorage = null
+    }
+  }
+
+  return { withLock, broadcast, shareResult, getSharedResult, clearSharedResult, close }
+}
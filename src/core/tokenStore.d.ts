@@ -0,0 +1,106 @@
+/**
+ * Key token yang dikelola FetchManager
+ */
+export type TokenKey = 'accessToken' | 'refreshToken' | 'refreshTokenExpiration'
+
+/**
+ * Interface token store. Method boleh sync atau async
+ */
+export interface TokenStore {
+  /**
+   * Ambil nilai token, null jika tidak ada
+   */
+  get(key: TokenKey | string): string | null | Promise<string | null>
+
+  /**
+   * Simpan nilai token (null/undefined menghapus key)
+   */
+  set(key: TokenKey | string, value: string | number | null | undefined): void | Promise<void>
+
+  /**
+   * Hapus satu token
+   */
+  remove(key: TokenKey | string): void | Promise<void>
+
+  /**
+   * Hapus semua token (`accessToken`, `refreshToken`, `refreshTokenExpiration`)
+   */
+  clear(): void | Promise<void>
+}
+
+/**
+ * Nama token store bawaan
+ */
+export type TokenStoreName = 'memory' | 'localStorage' | 'sessionStorage' | 'cookie'
+
+export interface TokenStoreOptions {
+  /**
+   * Prefix key / nama cookie
+   * @default ''
+   */
+  prefix?: string
+}
+
+export interface CookieTokenStoreOptions extends TokenStoreOptions {
+  /**
+   * Atribut Path
+   * @default '/'
+   */
+  path?: string
+
+  /**
+   * Atribut Domain
+   */
+  domain?: string
+
+  /**
+   * Atribut Max-Age dalam detik
+   * @default undefined (session cookie)
+   */
+  maxAge?: number
+
+  /**
+   * Atribut SameSite
+   * @default 'Lax'
+   */
+  sameSite?: 'Strict' | 'Lax' | 'None'
+
+  /**
+   * Atribut Secure
+   * @default true jika halaman https
+   */
+  secure?: boolean
+}
+
+/**
+ * Key token yang dihapus oleh `clear`
+ */
+export declare const TOKEN_KEYS: TokenKey[]
+
+/**
+ * Membuat token store di memory (hilang saat reload, tidak dibagi antar tab)
+ */
+export declare function createMemoryTokenStore(options?: TokenStoreOptions): TokenStore
+
+/**
+ * Membuat token store di atas localStorage/sessionStorage
+ * @param storage - Instance Storage atau getter (lazy, aman untuk SSR)
+ */
+export declare function createWebTokenStore(
+  storage: Storage | (() => Storage | undefined),
+  options?: TokenStoreOptions
+): TokenStore
+
+/**
+ * Membuat token store di cookie (`document.cookie`)
+ */
+export declare function createCookieTokenStore(options?: CookieTokenStoreOptions): TokenStore
+
+/**
+ * Resolve nama token store bawaan atau store custom
+ * @throws Error jika nama store tidak dikenal
+ */
+export declare function resolveTokenStore(
+  store?: TokenStoreName | TokenStore,
+  options?: TokenStoreOptions | CookieTokenStoreOptions
+): TokenStore
@@ -0,0 +1,166 @@
+/**
+ * Token store untuk FetchManager
+ *
+ * Setiap store punya interface yang sama: `get`, `set`, `remove`, `clear`.
+ * Method boleh sync atau async (return Promise). Key yang dipakai FetchManager adalah
+ * `accessToken`, `refreshToken` dan `refreshTokenExpiration`, disimpan dengan `prefix` opsional.
+ */
+
+// Key token yang dikelola FetchManager (dihapus oleh `clear`)
+export const TOKEN_KEYS = ['accessToken', 'refreshToken', 'refreshTokenExpiration']
+
+/**
+ * Membuat token store di memory (hilang saat reload, tidak dibagi antar tab)
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.prefix=''] - Prefix key
+ * @returns {import('./tokenStore').TokenStore}
+ * @example
+ * const store = createMemoryTokenStore()
+ */
+export function createMemoryTokenStore({ prefix = '' } = {}) {
+  const values = new Map()
+
+  return {
+    get(key) {
+      return values.get(prefix + key) ?? null
+    },
+
+    set(key, value) {
+      if (value === null || value === undefined) values.delete(prefix + key)
+      else values.set(prefix + key, String(value))
+    },
+
+    remove(key) {
+      values.delete(prefix + key)
+    },
+
+    clear() {
+      for (const key of TOKEN_KEYS) values.delete(prefix + key)
+    }
+  }
+}
+
+/**
+ * Membuat token store di atas Web Storage (localStorage/sessionStorage)
+ * Jika storage tidak tersedia (SSR), `get` mengembalikan null dan `set` diabaikan.
+ *
+ * @param {Storage|(() => Storage|undefined)} storage - Instance Storage atau getter (lazy, aman untuk SSR)
+ * @param {Object} [options={}]
+ * @param {string} [options.prefix=''] - Prefix key di storage
+ * @returns {import('./tokenStore').TokenStore}
+ * @example
+ * const store = createWebTokenStore(() => window.sessionStorage, { prefix: 'admin:' })
+ */
+export function createWebTokenStore(storage, { prefix = '' } = {}) {
+  const getStorage = () => (typeof storage === 'function' ? storage() : storage)
+
+  const remove = (key) => {
+    getStorage()?.removeItem(prefix + key)
+  }
+
+  return {
+    get(key) {
+      return getStorage()?.getItem(prefix + key) ?? null
+    },
+
+    set(key, value) {
+      if (value === null || value === undefined) remove(key)
+      else getStorage()?.setItem(prefix + key, String(value))
+    },
+
+    remove,
+
+    clear() {
+      TOKEN_KEYS.forEach(remove)
+    }
+  }
+}
+
+/**
+ * Membuat token store di cookie (`document.cookie`)
+ * Cookie yang ditulis dari JavaScript tidak bisa httpOnly; untuk refresh token di cookie httpOnly
+ * gunakan opsi `refreshTokenInCookie` di FetchManager.
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.prefix=''] - Prefix nama cookie
+ * @param {string} [options.path='/'] - Atribut Path
+ * @param {string} [options.domain] - Atribut Domain
+ * @param {number} [options.maxAge] - Atribut Max-Age dalam detik (default: session cookie)
+ * @param {'Strict'|'Lax'|'None'} [options.sameSite='Lax'] - Atribut SameSite
+ * @param {boolean} [options.secure] - Atribut Secure (default: true jika halaman https)
+ * @returns {import('./tokenStore').TokenStore}
+ * @example
+ * const store = createCookieTokenStore({ prefix: 'app_', maxAge: 7 * 24 * 60 * 60 })
+ */
+export function createCookieTokenStore({
+  prefix = '',
+  path = '/',
+  domain,
+  maxAge,
+  sameSite = 'Lax',
+  secure
+} = {}) {
+  const hasDocument = () => typeof document !== 'undefined'
+
+  const write = (key, value, age) => {
+    if (!hasDocument()) return
+    const isSecure = secure ?? (typeof location !== 'undefined' && location.protocol === 'https:')
+    const attributes = [`Path=${path}`, `SameSite=${sameSite}`]
+    if (domain) attributes.push(`Domain=${domain}`)
+    if (age !== undefined) attributes.push(`Max-Age=${age}`)
+    // Expires di masa lalu untuk menghapus cookie di browser yang mengabaikan Max-Age=0
+    if (age === 0) attributes.push('Expires=Thu, 01 Jan 1970 00:00:00 GMT')
+    if (isSecure) attributes.push('Secure')
+    document.cookie = `${encodeURIComponent(prefix + key)}=${encodeURIComponent(value)}; ${attributes.join('; ')}`
+  }
+
+  const remove = (key) => write(key, '', 0)
+
+  return {
+    get(key) {
+      if (!hasDocument()) return null
+      const name = `${encodeURIComponent(prefix + key)}=`
+      const cookie = document.cookie.split('; ').find((part) => part.startsWith(name))
+      return cookie ? decodeURIComponent(cookie.slice(name.length)) : null
+    },
+
+    set(key, value) {
+      if (value === null || value === undefined) remove(key)
+      else write(key, String(value), maxAge)
+    },
+
+    remove,
+
+    clear() {
+      TOKEN_KEYS.forEach(remove)
+    }
+  }
+}
+
+// Factory untuk token store bawaan yang bisa dipilih lewat nama
+const builtinTokenStores = {
+  memory: (options) => createMemoryTokenStore(options),
+  localStorage: (options) => createWebTokenStore(() => globalThis.localStorage, options),
+  sessionStorage: (options) => createWebTokenStore(() => globalThis.sessionStorage, options),
+  cookie: (options) => createCookieTokenStore(options)
+}
+
+/**
+ * Resolve nama token store bawaan atau store custom menjadi instance store
+ *
+ * @param {string|import('./tokenStore').TokenStore} [store='localStorage'] - 'memory' | 'localStorage' |
+ *   'sessionStorage' | 'cookie' atau store custom
+ * @param {Object} [options={}] - Opsi factory store bawaan (misalnya `prefix`)
+ * @returns {import('./tokenStore').TokenStore}
+ * @throws {Error} Jika nama store tidak dikenal
+ */
+export function resolveTokenStore(store = 'localStorage', options = {}) {
+  if (typeof store !== 'string') return store
+
+  const factory = builtinTokenStores[store]
+  if (!factory) {
+    throw new Error(`[FetchManager] Token store "${store}" tidak dikenal`)
+  }
+  return factory(options)
+}
@@ -0,0 +1,65 @@
+import type { FetchOptions } from 'ofetch'
+import type { FetchProgress } from '../wrapper/useFetch'
+
+/**
+ * Callback progress upload/download
+ */
+export type ProgressCallback = (progress: FetchProgress) => void
+
+export interface XhrProgressCallbacks {
+  /**
+   * Dipanggil saat upload berjalan
+   */
+  onUploadProgress?: ProgressCallback
+
+  /**
+   * Dipanggil saat download berjalan
+   */
+  onDownloadProgress?: ProgressCallback
+}
+
+/**
+ * Buat object progress `{ loaded, total, percent }`
+ */
+export declare function createProgress(loaded?: number, total?: number): FetchProgress
+
+/**
+ * Request via ofetch dengan body response dibaca bertahap untuk download progress
+ */
+export declare function fetchWithProgress<T = any>(
+  url: string,
+  options: FetchOptions<any>,
+  onDownloadProgress: ProgressCallback
+): Promise<T>
+
+/**
+ * Request via XMLHttpRequest dengan progress upload dan download
+ */
+export declare function xhrRequest<T = any>(
+  url: string,
+  options?: FetchOptions<any>,
+  callbacks?: XhrProgressCallbacks
+): Promise<T>
+
+/**
+ * Format stream yang didukung `streamRequest`
+ */
+export type StreamFormat = 'text' | 'ndjson' | 'sse'
+
+/**
+ * Event SSE hasil parse stream format 'sse'
+ */
+export interface StreamSSEEvent<T = any> {
+  event: string
+  data: T
+  id?: string
+}
+
+/**
+ * Baca body response secara streaming dan kirim setiap chunk ke `onChunk`
+ */
+export declare function streamRequest(
+  url: string,
+  options: FetchOptions<any>,
+  config: { format?: StreamFormat; onChunk: (chunk: any) => void }
+): Promise<void>
@@ -0,0 +1,358 @@
+import { ofetch } from 'ofetch'
+
+/**
+ * Transport request untuk useFetch: progress upload/download dan streaming
+ *
+ * - `fetchWithProgress`: ofetch dengan body response dibaca bertahap (download progress)
+ * - `xhrRequest`: XMLHttpRequest untuk upload progress (fetch belum mendukung upload progress)
+ * - `streamRequest`: body response dibaca per chunk (text, NDJSON, SSE)
+ *
+ * Semua menerima `signal` dari AbortController yang sama dengan useFetch.
+ */
+
+const JSON_RE = /^application\/(?:[\w!#$%&*.^`~-]*\+)?json(;.+)?$/i
+
+/**
+ * Buat object progress `{ loaded, total, percent }`
+ *
+ * @param {number} [loaded=0] - Byte yang sudah diproses
+ * @param {number} [total=0] - Total byte (0 jika tidak diketahui)
+ * @returns {{ loaded: number, total: number, percent: number }}
+ */
+export function createProgress(loaded = 0, total = 0) {
+  return {
+    loaded,
+    total,
+    percent: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0
+  }
+}
+
+// Helper: tentukan cara parse body, mengikuti deteksi content-type ofetch
+function detectResponseType(contentType = '') {
+  if (!contentType) return 'json'
+  const type = contentType.split(';')[0]
+  if (JSON_RE.test(type)) return 'json'
+  if (type.startsWith('text/') || type === 'application/xml' || type === 'image/svg') return 'text'
+  return 'blob'
+}
+
+// Helper: parse text sebagai JSON jika memungkinkan (seperti destr di ofetch)
+function parseJSON(text) {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+// Helper: gabungkan chunk Uint8Array menjadi satu buffer
+function concatChunks(chunks, length) {
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+// Helper: parse body hasil stream sesuai responseType
+function parseBody(chunks, length, responseType, contentType) {
+  const type = responseType || detectResponseType(contentType)
+  if (type === 'blob') return new Blob(chunks, { type: contentType })
+
+  const bytes = concatChunks(chunks, length)
+  if (type === 'arrayBuffer') return bytes.buffer
+
+  const text = new TextDecoder().decode(bytes)
+  return type === 'json' ? parseJSON(text) : text
+}
+
+/**
+ * Request via ofetch dengan body response dibaca bertahap untuk download progress.
+ * Hasil parse mengikuti `responseType` atau content-type (json, text, blob, arrayBuffer).
+ *
+ * @param {string} url - URL request
+ * @param {Object} options - Opsi ofetch (termasuk `signal`)
+ * @param {Function} onDownloadProgress - Dipanggil dengan `{ loaded, total, percent }` setiap chunk
+ * @returns {Promise<any>} Data response
+ */
+export async function fetchWithProgress(url, options, onDownloadProgress) {
+  const response = await ofetch.raw(url, { ...options, responseType: 'stream' })
+  const contentType = response.headers.get('content-type') || ''
+  const total = Number(response.headers.get('content-length')) || 0
+  const body = response._data
+
+  if (!body?.getReader) return body
+
+  const reader = body.getReader()
+  const chunks = []
+  let loaded = 0
+
+  onDownloadProgress(createProgress(0, total))
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.length
+    onDownloadProgress(createProgress(loaded, total))
+  }
+  onDownloadProgress(createProgress(loaded, total || loaded))
+
+  return parseBody(chunks, loaded, options.responseType, contentType)
+}
+
+// Helper: gabungkan baseURL, URL dan query menjadi URL lengkap
+function buildUrl(url, { baseURL, query, params } = {}) {
+  let fullUrl = url
+  if (baseURL && !/^https?:\/\//.test(url)) {
+    fullUrl = `${baseURL.replace(/\/$/, '')}/${url.replace(/^\//, '')}`
+  }
+
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries({ ...params, ...query })) {
+    if (value === undefined) continue
+    if (Array.isArray(value)) value.forEach((item) => search.append(key, item))
+    else search.append(key, value)
+  }
+
+  const queryString = search.toString()
+  if (!queryString) return fullUrl
+  return `${fullUrl}${fullUrl.includes('?') ? '&' : '?'}${queryString}`
+}
+
+// Helper: cek apakah body perlu di-serialize sebagai JSON (seperti ofetch)
+function isJSONBody(body) {
+  if (body === null || body === undefined || typeof body !== 'object') return false
+  if (body instanceof FormData || body instanceof URLSearchParams || body instanceof Blob) return false
+  if (ArrayBuffer.isView(body) || body instanceof ArrayBuffer) return false
+  return true
+}
+
+// Helper: error dengan bentuk yang sama seperti FetchError ofetch (status, data, response)
+function createXhrError(message, response) {
+  const error = new Error(message)
+  error.name = 'FetchError'
+  if (response) {
+    error.status = response.status
+    error.statusCode = response.status
+    error.statusText = response.statusText
+    error.data = response._data
+    error.response = response
+  }
+  return error
+}
+
+// Helper: jalankan hook interceptor (function atau array) berurutan seperti ofetch
+async function callHooks(context, hooks) {
+  if (!hooks) return
+  for (const hook of Array.isArray(hooks) ? hooks : [hooks]) await hook(context)
+}
+
+// Helper: kirim request lewat XMLHttpRequest. Resolve `{ response, requestUrl, requestMethod }`
+// untuk semua status HTTP, reject untuk network error dan abort
+function sendXhr(url, options, { onUploadProgress, onDownloadProgress }) {
+  const { method = 'GET', headers, body, responseType, signal } = options
+  const requestMethod = method.toUpperCase()
+  const requestUrl = buildUrl(url, options)
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    xhr.open(requestMethod, requestUrl)
+
+    const requestHeaders = new Headers(headers)
+    let payload = body
+    if (isJSONBody(body)) {
+      payload = JSON.stringify(body)
+      if (!requestHeaders.has('content-type')) requestHeaders.set('content-type', 'application/json')
+    }
+    requestHeaders.forEach((value, name) => xhr.setRequestHeader(name, value))
+
+    if (responseType === 'blob' || responseType === 'arrayBuffer') {
+      xhr.responseType = responseType === 'blob' ? 'blob' : 'arraybuffer'
+    }
+
+    const onAbort = () => xhr.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const done = () => signal?.removeEventListener('abort', onAbort)
+
+    if (onUploadProgress && xhr.upload) {
+      xhr.upload.onprogress = (event) => {
+        onUploadProgress(createProgress(event.loaded, event.lengthComputable ? event.total : 0))
+      }
+    }
+    if (onDownloadProgress) {
+      xhr.onprogress = (event) => {
+        onDownloadProgress(createProgress(event.loaded, event.lengthComputable ? event.total : 0))
+      }
+    }
+
+    xhr.onload = () => {
+      done()
+      const data = xhr.responseType
+        ? xhr.response
+        : responseType === 'text'
+          ? xhr.responseText
+          : parseJSON(xhr.responseText)
+
+      // Bentuk response mengikuti ofetch (`status`, `ok`, `headers.get`, `_data`) untuk interceptor
+      const response = {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        ok: xhr.status >= 200 && xhr.status < 300,
+        headers: { get: (name) => xhr.getResponseHeader(name) },
+        _data: data
+      }
+      resolve({ response, requestUrl, requestMethod })
+    }
+    xhr.onerror = () => {
+      done()
+      reject(createXhrError(`[${requestMethod}] "${requestUrl}": Network error`))
+    }
+    xhr.onabort = () => {
+      done()
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+
+    xhr.send(payload ?? null)
+  })
+}
+
+/**
+ * Request via XMLHttpRequest dengan progress upload dan download.
+ * Mendukung `method`, `headers`, `query`/`params`, `baseURL`, `body` (object di-serialize JSON),
+ * `responseType` dan `signal` untuk cancel. Interceptor `onRequest`, `onRequestError`, `onResponse`
+ * dan `onResponseError` di options dijalankan dengan context yang sama seperti ofetch
+ * (`{ request, options, response, error }`), sehingga header auth dari config global ikut terkirim.
+ *
+ * @param {string} url - URL request
+ * @param {Object} options - Opsi request (format ofetch)
+ * @param {Object} [callbacks={}]
+ * @param {Function} [callbacks.onUploadProgress] - Dipanggil dengan `{ loaded, total, percent }` saat upload
+ * @param {Function} [callbacks.onDownloadProgress] - Dipanggil dengan `{ loaded, total, percent }` saat download
+ * @returns {Promise<any>} Data response
+ */
+export async function xhrRequest(url, options = {}, callbacks = {}) {
+  const context = { request: url, options: { ...options, headers: new Headers(options.headers) } }
+  // Tanpa hook, XHR langsung dibuat secara sinkron
+  if (options.onRequest) await callHooks(context, options.onRequest)
+
+  let result
+  try {
+    result = await sendXhr(context.request, context.options, callbacks)
+  } catch (error) {
+    context.error = error
+    await callHooks(context, context.options.onRequestError)
+    throw error
+  }
+
+  const { response, requestUrl, requestMethod } = result
+  context.response = response
+  await callHooks(context, context.options.onResponse)
+
+  if (response.status >= 400) {
+    await callHooks(context, context.options.onResponseError)
+    throw createXhrError(`[${requestMethod}] "${requestUrl}": ${response.status} ${response.statusText}`, response)
+  }
+  return response._data
+}
+
+// Helper: parse satu blok event SSE (field `event`, `data`, `id`), null jika tidak ada data
+function parseSSEEvent(block) {
+  const event = { event: 'message', data: '', id: undefined }
+  const dataLines = []
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+    if (field === 'data') dataLines.push(value)
+    else if (field === 'event') event.event = value
+    else if (field === 'id') event.id = value
+  }
+
+  if (dataLines.length === 0) return null
+  event.data = parseJSON(dataLines.join('\n'))
+  return event
+}
+
+/**
+ * Baca body response secara streaming dan kirim setiap chunk ke `onChunk`.
+ *
+ * Format:
+ * - `text`: setiap potongan text yang diterima
+ * - `ndjson`: setiap baris JSON yang sudah di-parse
+ * - `sse`: setiap event SSE `{ event, data, id }` (data di-parse jika JSON), termasuk SSE via POST
+ *
+ * @param {string} url - URL request
+ * @param {Object} options - Opsi ofetch (termasuk `signal` untuk cancel)
+ * @param {Object} config
+ * @param {'text'|'ndjson'|'sse'} [config.format='text'] - Format stream
+ * @param {Function} config.onChunk - Dipanggil untuk setiap chunk
+ * @returns {Promise<void>} Resolve saat stream selesai, reject dengan AbortError jika `signal` di-abort
+ */
+export async function streamRequest(url, options, { format = 'text', onChunk }) {
+  const response = await ofetch.raw(url, { ...options, responseType: 'stream' })
+  const body = response._data
+  if (!body?.getReader) return
+
+  const reader = body.getReader()
+  const signal = options.signal
+  const cancel = () => reader.cancel().catch(() => {})
+  // Pastikan stream berhenti dibaca saat request di-abort (misalnya unmount)
+  signal?.addEventListener('abort', cancel, { once: true })
+
+  const decoder = new TextDecoder()
+  const delimiter = format === 'sse' ? '\n\n' : '\n'
+  let buffer = ''
+
+  const emit = (part) => {
+    if (format === 'ndjson') {
+      if (part.trim()) onChunk(JSON.parse(part))
+    } else {
+      const event = parseSSEEvent(part)
+      if (event) onChunk(event)
+    }
+  }
+
+  // Abort di tengah stream dilempar sebagai AbortError, sisa buffer tidak diproses
+  const throwIfAborted = () => {
+    if (!signal?.aborted) return
+    cancel()
+    throw new DOMException('The operation was aborted.', 'AbortError')
+  }
+
+  try {
+    while (true) {
+      throwIfAborted()
+      const { done, value } = await reader.read()
+      throwIfAborted()
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      if (format === 'text') {
+        if (text) onChunk(text)
+      } else {
+        buffer += text.replace(/\r\n?/g, '\n')
+        let index
+        while ((index = buffer.indexOf(delimiter)) !== -1) {
+          emit(buffer.slice(0, index))
+          buffer = buffer.slice(index + delimiter.length)
+        }
+      }
+
+      if (done) break
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel)
+  }
+
+  // Sisa buffer tanpa delimiter penutup
+  if (format !== 'text' && buffer) emit(buffer)
+}
@@ -9,8 +9,33 @@ export { useTheme } from "./composables/useTheme";
 export { useDevice } from "./composables/useDevice";
 export { useEventBus } from "./wrapper/useEventBus";
 export { useFetch } from "./wrapper/useFetch";
+export type { FetchProgress } from "./wrapper/useFetch";
+export type { StreamFormat, StreamSSEEvent } from "./core/transport";
+export { useMutation } from "./wrapper/useMutation";
+export { useInfiniteFetch } from "./wrapper/useInfiniteFetch";
+export {
+  createMemoryStorage,
+  createWebStorage,
+  createIndexedDBStorage,
+  setDefaultCacheStorage,
+  setCacheLimits,
+  getCacheStats
+} from "./core/cacheStorage";
+export { invalidateQueries, createQueryKey, getQueryData, setQueryData } from "./core/queryClient";
+export type { QueryFilter, QueryMeta } from "./core/queryClient";
+export { createFetchConfig, vue3Utils, FETCH_CONFIG_KEY } from "./core/fetchConfig";
+export type { FetchConfig, FetchConfigPlugin, Vue3UtilsOptions } from "./core/fetchConfig";
+export { createOfflineQueue, getDefaultOfflineQueue } from "./core/offlineQueue";
+export type { OfflineQueue, OfflineQueueOptions, QueuedRequest } from "./core/offlineQueue";
+export { FetchError, ValidationError } from "./core/errors";
+export type { FetchErrorKind } from "./core/errors";
+export { getFetchPayload, serializeFetchPayload, hydrateFetchPayload } from "./core/ssrPayload";
+export type { FetchPayload, FetchPayloadEntry } from "./core/ssrPayload";
+export type { CacheEntry, CacheStorage, CacheStorageName, CacheStats, CacheLimits } from "./core/cacheStorage";
 export { useAuthGuard } from "./wrapper/useAuthGuard";
 export { useFetchServer } from "./wrapper/useFetchServer";
+export { createMemoryTokenStore, createWebTokenStore, createCookieTokenStore } from "./core/tokenStore";
+export type { TokenStore, TokenStoreName, TokenStoreOptions, CookieTokenStoreOptions } from "./core/tokenStore";
 export { useDateTime } from "./wrapper/useDateTime";
 export { useCurrency } from "./wrapper/useCurrency";
 export { useGoogleLogin } from "./wrapper/useGoogleLogin";
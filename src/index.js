@@ -75,6 +75,71 @@ export { eventBus, Emitter } from "./core/emitter.js";
  */
 export { useFetch } from "./wrapper/useFetch.js";
 
+/**
+ * Wrapper untuk mutation (POST/PUT/DELETE) dengan optimistic update
+ * @see {@link module:wrapper/useMutation}
+ */
+export { useMutation } from "./wrapper/useMutation.js";
+
+/**
+ * Wrapper untuk list paginated / infinite scroll dengan caching
+ * @see {@link module:wrapper/useInfiniteFetch}
+ */
+export { useInfiniteFetch } from "./wrapper/useInfiniteFetch.js";
+
+/**
+ * Storage adapter untuk cache useFetch (memory, localStorage, sessionStorage, IndexedDB)
+ * @see {@link module:core/cacheStorage}
+ */
+export {
+  createMemoryStorage,
+  createWebStorage,
+  createIndexedDBStorage,
+  setDefaultCacheStorage,
+  setCacheLimits,
+  getCacheStats
+} from "./core/cacheStorage.js";
+
+/**
+ * Invalidate cache useFetch berdasarkan prefix, predicate atau tags,
+ * baca/ubah data query, dan helper untuk membuat cache key
+ * @see {@link module:core/queryClient}
+ */
+export {
+  invalidateQueries,
+  createQueryKey,
+  getQueryData,
+  setQueryData
+} from "./core/queryClient.js";
+
+/**
+ * Konfigurasi global useFetch (base URL, headers, cacheTime, retry, interceptor) via plugin
+ * @see {@link module:core/fetchConfig}
+ */
+export { createFetchConfig, vue3Utils, FETCH_CONFIG_KEY } from "./core/fetchConfig.js";
+
+/**
+ * Antrean offline untuk request non-GET useFetch (replay saat online)
+ * @see {@link module:core/offlineQueue}
+ */
+export { createOfflineQueue, getDefaultOfflineQueue } from "./core/offlineQueue.js";
+
+/**
+ * Error class untuk useFetch (FetchError, ValidationError)
+ * @see {@link module:core/errors}
+ */
+export { FetchError, ValidationError } from "./core/errors.js";
+
+/**
+ * Payload SSR useFetch: ambil/serialize di server, hydrate di client
+ * @see {@link module:core/ssrPayload}
+ */
+export {
+  getFetchPayload,
+  serializeFetchPayload,
+  hydrateFetchPayload
+} from "./core/ssrPayload.js";
+
 /**
  * Wrapper untuk memeriksa status expirasi token
  * @see {@link module:wrapper/useAuthGuard}
@@ -87,6 +152,16 @@ export { useAuthGuard } from "./wrapper/useAuthGuard.js";
  */
 export { useFetchServer } from "./wrapper/useFetchServer.js";
 
+/**
+ * Token store untuk useFetchServer (memory, localStorage, sessionStorage, cookie)
+ * @see {@link module:core/tokenStore}
+ */
+export {
+  createMemoryTokenStore,
+  createWebTokenStore,
+  createCookieTokenStore
+} from "./core/tokenStore.js";
+
 /**
  * Wrapper untuk manipulasi dan formatting tanggal/waktu
  * @see {@link module:wrapper/useDateTime}
@@ -1,5 +1,29 @@
 import { Ref } from "vue";
 import type { FetchOptions } from 'ofetch'
+import type { CacheStorage, CacheStorageName } from '../core/cacheStorage'
+import type { StreamFormat } from '../core/transport'
+import type { FetchError } from '../core/errors'
+import type { OfflineQueue } from '../core/offlineQueue'
+
+/**
+ * Value yang bisa berupa plain value, ref, atau getter function
+ */
+export type MaybeRefOrGetter<T> = T | Ref<T> | (() => T);
+
+/**
+ * Opsi ofetch untuk useFetch, dengan `query` dan `body` yang boleh reactive
+ */
+export interface UseFetchOptions extends Omit<FetchOptions, 'query' | 'body'> {
+  /**
+   * Query string (plain object, ref, atau getter). Perubahan memicu fetch ulang
+   */
+  query?: MaybeRefOrGetter<Record<string, any> | undefined>;
+
+  /**
+   * Request body (plain value, ref, atau getter). Perubahan memicu fetch ulang
+   */
+  body?: MaybeRefOrGetter<any>;
+}
 
 /**
  * Opsi konfigurasi untuk useFetch
@@ -12,10 +36,185 @@ export interface UseFetchConfig {
   cacheTime?: number;
 
   /**
-   * Jalankan fetch otomatis saat composable dipanggil
+   * Umur cache dalam milidetik yang masih dianggap fresh.
+   * Cache yang lebih tua dari staleTime (tapi belum melewati cacheTime)
+   * langsung ditampilkan lalu di-revalidate di background
+   * @default cacheTime
+   */
+  staleTime?: number;
+
+  /**
+   * Storage untuk menyimpan cache: nama storage bawaan atau adapter custom
+   * @default Storage global dari setDefaultCacheStorage ('memory')
+   */
+  storage?: CacheStorageName | CacheStorage;
+
+  /**
+   * Cache key custom (override key otomatis)
+   */
+  key?: string;
+
+  /**
+   * Builder cache key custom, menerima URL dan opsi request yang sudah di-resolve
+   */
+  getKey?: (request: { url: string } & FetchOptions) => string;
+
+  /**
+   * Nama header yang ikut membedakan cache key (contoh: 'accept-language')
+   * @default []
+   */
+  varyHeaders?: string[];
+
+  /**
+   * Tags untuk invalidation via `invalidateQueries({ tags })`
+   * @default []
+   */
+  tags?: string[];
+
+  /**
+   * Jumlah maksimal retry saat request gagal
+   * @default 0
+   */
+  retry?: number;
+
+  /**
+   * Delay awal retry dalam milidetik, dikali 2 setiap attempt (max 30 detik).
+   * Bisa juga function yang menerima nomor attempt (mulai dari 1).
+   * Header `Retry-After` dari response selalu diutamakan
+   * @default 1000
+   */
+  retryDelay?: number | ((attempt: number) => number);
+
+  /**
+   * Predicate untuk menentukan apakah error perlu di-retry.
+   * `attempt` adalah nomor retry berikutnya (mulai dari 1)
+   * @default Retry network error, status 5xx dan 429
+   */
+  shouldRetry?: (error: any, attempt: number) => boolean;
+
+  /**
+   * Batas waktu request dalam milidetik, termasuk semua retry (0 = tanpa timeout).
+   * Saat habis request di-abort dan `error` berisi FetchError dengan `kind: 'timeout'`
+   * @default 0
+   */
+  timeout?: number;
+
+  /**
+   * Gabungkan request bersamaan dengan cache key yang sama menjadi satu request network.
+   * Abort/unmount satu caller hanya melepas caller tersebut
+   * @default true
+   */
+  dedupe?: boolean;
+
+  /**
+   * Pakai cache juga di server (SSR). Default mati: cache server dibagi antar user
+   * dan cache key tidak memuat header auth/cookie. Aktifkan hanya untuk data publik
+   * @default false
+   */
+  ssrCache?: boolean;
+
+  /**
+   * Jalankan fetch otomatis saat composable dipanggil,
+   * dan fetch ulang saat url/query/body reactive berubah
    * @default true
    */
   immediate?: boolean;
+
+  /**
+   * Boolean, ref atau getter. Selama falsy tidak ada fetch sama sekali (termasuk `refetch`)
+   * dan url tidak di-resolve. Saat berubah dari falsy menjadi truthy, fetch otomatis berjalan (jika `immediate`)
+   * dengan tetap memakai cache; dependency yang berubah tanpa mengubah hasilnya tidak memicu fetch.
+   * Cocok untuk dependent / conditional query
+   * @default true
+   */
+  enabled?: MaybeRefOrGetter<boolean>;
+
+  /**
+   * Antrean dari `createOfflineQueue`, atau true untuk antrean default (localStorage).
+   * Request non-GET saat offline atau gagal karena network error disimpan dan
+   * dikirim ulang berurutan saat online; `queued` menjadi true dan `error` tetap null
+   */
+  offlineQueue?: boolean | OfflineQueue;
+
+  /**
+   * Baca body response bertahap untuk mengisi `downloadProgress`
+   * @default false
+   */
+  progress?: boolean;
+
+  /**
+   * Transport request. 'xhr' dibutuhkan untuk `uploadProgress` (upload file)
+   * dan juga mengisi `downloadProgress`
+   * @default 'fetch'
+   */
+  transport?: 'fetch' | 'xhr';
+
+  /**
+   * Baca body response secara streaming: 'text' (atau true), 'ndjson' atau 'sse' (SSE via POST juga didukung).
+   * Chunk masuk ke `chunks`; data akhir berisi text lengkap ('text') atau array chunk ('ndjson'/'sse')
+   */
+  stream?: boolean | StreamFormat;
+
+  /**
+   * Callback per chunk stream. Jika diisi, chunk tidak ditampung di `chunks` dan data akhir null
+   */
+  onChunk?: (chunk: any) => void;
+
+  /**
+   * Transform response sebelum validasi dan sebelum disimpan ke cache
+   */
+  transform?: (response: any) => any;
+
+  /**
+   * Pilih sebagian data untuk instance ini. Dijalankan setelah data dibaca,
+   * cache tetap menyimpan data penuh
+   */
+  select?: (data: any) => any;
+
+  /**
+   * Validator data (misalnya zod `Schema.parse`). Throw atau return false dianggap gagal,
+   * error dikirim ke `error` sebagai `ValidationError` dan data tidak di-cache
+   */
+  validate?: (data: any) => unknown;
+
+  /**
+   * Polling tiap N milidetik (0 = nonaktif). Di-pause saat tab tidak terlihat.
+   * Tetap mengikuti aturan cache (data yang masih fresh tidak memicu request)
+   * @default 0
+   */
+  refetchInterval?: number;
+
+  /**
+   * Fetch ulang saat window kembali fokus / tab kembali terlihat
+   * @default false
+   */
+  refetchOnWindowFocus?: boolean;
+
+  /**
+   * Fetch ulang saat koneksi kembali online (event `online`)
+   * @default false
+   */
+  refetchOnReconnect?: boolean;
+}
+
+/**
+ * Progress upload/download
+ */
+export interface FetchProgress {
+  /**
+   * Byte yang sudah diproses
+   */
+  loaded: number;
+
+  /**
+   * Total byte (0 jika tidak diketahui)
+   */
+  total: number;
+
+  /**
+   * Persentase 0-100 (0 jika total tidak diketahui)
+   */
+  percent: number;
 }
 
 /**
@@ -28,15 +227,46 @@ export interface UseFetchReturn<T = any> {
   data: Ref<T | null>;
 
   /**
-   * Error object jika terjadi kesalahan
+   * Error ternormalisasi jika terjadi kesalahan. Bedakan lewat `kind`
+   * ('timeout' | 'network' | 'http' | 'abort' | 'parse')
    */
-  error: Ref<Error | null>;
+  error: Ref<FetchError | null>;
 
   /**
-   * Status loading
+   * Status loading (false jika data stale dari cache sudah ditampilkan)
    */
   loading: Ref<boolean>;
 
+  /**
+   * True selama request network berjalan, termasuk revalidate di background
+   */
+  isValidating: Ref<boolean>;
+
+  /**
+   * Jumlah retry yang sudah dilakukan pada fetch terakhir
+   */
+  attempt: Ref<number>;
+
+  /**
+   * Progress upload (transport 'xhr')
+   */
+  uploadProgress: Ref<FetchProgress>;
+
+  /**
+   * Progress download (config `progress` atau transport 'xhr')
+   */
+  downloadProgress: Ref<FetchProgress>;
+
+  /**
+   * Chunk yang sudah diterima (mode `stream`)
+   */
+  chunks: Ref<any[]>;
+
+  /**
+   * True jika request terakhir masuk antrean offline (`offlineQueue`)
+   */
+  queued: Ref<boolean>;
+
   /**
    * Fungsi untuk refetch data (bypass cache)
    * @returns Promise dengan data baru
@@ -49,6 +279,12 @@ export interface UseFetchReturn<T = any> {
   clearCache: () => void;
 }
 
+/**
+ * Return useFetch yang juga bisa di-await (Suspense / async setup).
+ * Resolve ke state yang sama (tanpa `then`) setelah fetch pertama selesai
+ */
+export type UseFetchAwaitable<T = any> = UseFetchReturn<T> & PromiseLike<UseFetchReturn<T>>;
+
 /**
  * Composable untuk melakukan HTTP fetch dengan fitur caching otomatis
  *
@@ -58,8 +294,25 @@ export interface UseFetchReturn<T = any> {
  * - Memory leak prevention dengan cleanup on unmount
  * - Cache size limit (LRU - max 100 entries)
  * - Manual refetch dengan bypass cache
+ * - Stale-while-revalidate dengan `staleTime`
+ * - Storage cache persistent (localStorage, sessionStorage, IndexedDB, custom)
+ * - Cache key dari method, URL, query, body dan vary-headers (stable hash)
+ * - Invalidation global berdasarkan prefix, predicate atau tags (`invalidateQueries`)
+ * - Automatic retry dengan exponential backoff dan `Retry-After`
+ * - Request deduplication untuk caller bersamaan dengan key yang sama
+ * - URL, query dan body reactive (ref/getter) dengan auto refetch
+ * - Polling (`refetchInterval`), refetch saat window fokus dan saat online kembali
+ * - SSR: di-await lewat `onServerPrefetch`, payload di-hydrate di client tanpa request kedua
+ * - Awaitable: `await useFetch(...)` di async setup / `<Suspense>`
+ * - `transform`, `select` dan `validate` (ValidationError) untuk response
+ * - Progress upload/download (`uploadProgress`, `downloadProgress`) dengan transport XHR
+ * - Streaming response (text, NDJSON, SSE via POST) ke `chunks` atau `onChunk`
+ * - Dependent / conditional query via `enabled`
+ * - Antrean offline untuk request non-GET (`offlineQueue`) dengan replay saat online
+ * - Default global (baseURL, headers, cacheTime, retry, interceptor) via `createFetchConfig` / `app.use(vue3Utils)`
+ * - `timeout` dan error ternormalisasi (`FetchError` dengan `kind`, `status`, `data`, `url`)
  *
- * @param url - URL endpoint yang akan di-fetch
+ * @param url - URL endpoint yang akan di-fetch (string, ref, atau getter)
  * @param options - Opsi ofetch (method, headers, body, dll)
  * @param config - Konfigurasi tambahan (cacheTime, immediate)
  * @returns Object berisi data, error, loading, refetch, dan clearCache
@@ -95,9 +348,27 @@ export interface UseFetchReturn<T = any> {
  * // Trigger fetch manual
  * await refetch()
  * ```
+ *
+ * @example
+ * ```ts
+ * // URL dan query reactive
+ * const page = ref(1)
+ * const { data } = useFetch<Post[]>(
+ *   () => `/api/users/${route.params.id}/posts`,
+ *   { query: () => ({ page: page.value }) }
+ * )
+ *
+ * page.value++ // request lama di-abort, fetch ulang otomatis
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Async setup dengan <Suspense>
+ * const { data } = await useFetch<User>('/api/me')
+ * ```
  */
 export declare function useFetch<T = any>(
-  url: string,
-  options?: FetchOptions,
+  url: MaybeRefOrGetter<string>,
+  options?: UseFetchOptions,
   config?: UseFetchConfig
-): UseFetchReturn<T>;
\ No newline at end of file
+): UseFetchAwaitable<T>;
\ No newline at end of file
@@ -1,42 +1,174 @@
-import { ref, onUnmounted } from "vue";
+import { ref, watch, onUnmounted, onServerPrefetch, getCurrentInstance, useSSRContext } from "vue";
 import { ofetch } from 'ofetch'
+import { resolveCacheStorage } from '../core/cacheStorage.js'
+import { registerQuery, createQueryKey } from '../core/queryClient.js'
+import { isServer, recordFetchPayload, takeHydratedEntry } from '../core/ssrPayload.js'
+import { FetchError, ValidationError, normalizeFetchError } from '../core/errors.js'
+import { isOffline, getDefaultOfflineQueue } from '../core/offlineQueue.js'
+import { injectFetchConfig, applyFetchDefaults } from '../core/fetchConfig.js'
+import { createProgress, fetchWithProgress, xhrRequest, streamRequest } from '../core/transport.js'
+import { resolveValue, resolveRequestOptions, getRequestSourceKey } from '../core/requestOptions.js'
 
-// Global cache dengan size limit
-const MAX_CACHE_SIZE = 100
-const cache = new Map();
-const cacheTimers = new Map();
+// Batas atas delay retry (exponential backoff)
+const MAX_RETRY_DELAY = 30000
 
-// Helper: cleanup expired cache entries
-function cleanupExpiredCache(url) {
-  const timer = cacheTimers.get(url)
-  if (timer) {
-    clearTimeout(timer)
-    cacheTimers.delete(url)
+// Request yang sedang berjalan, di-share antar caller dengan cache key yang sama
+const inflightRequests = new Map();
+
+// Helper: gabung ke request yang sedang berjalan untuk key yang sama (dedupe),
+// atau buat request baru. Abort dari satu caller hanya melepas caller tersebut;
+// request shared baru di-abort jika sudah tidak ada caller yang menunggu.
+function joinSharedRequest(key, executor, signal) {
+  let entry = inflightRequests.get(key)
+
+  if (!entry) {
+    const controller = new AbortController()
+    const created = { controller, subscribers: 0, promise: null }
+    created.promise = executor(controller.signal).finally(() => {
+      if (inflightRequests.get(key) === created) inflightRequests.delete(key)
+    })
+    inflightRequests.set(key, created)
+    entry = created
   }
-  cache.delete(url)
+
+  entry.subscribers++
+
+  return new Promise((resolve, reject) => {
+    const detach = () => {
+      entry.subscribers--
+      if (entry.subscribers === 0) {
+        entry.controller.abort()
+        if (inflightRequests.get(key) === entry) inflightRequests.delete(key)
+      }
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+
+    signal.addEventListener('abort', detach, { once: true })
+    entry.promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', detach)
+    })
+  })
+}
+
+// Helper: default retry policy - network error, 5xx dan 429
+function defaultShouldRetry(error) {
+  if (error?.kind === 'parse') return false
+  const status = error?.status ?? error?.response?.status
+  if (!status) return true
+  return status === 429 || status >= 500
 }
 
-// Helper: enforce cache size limit (LRU)
-function enforceCacheLimit() {
-  if (cache.size > MAX_CACHE_SIZE) {
-    const firstKey = cache.keys().next().value
-    cleanupExpiredCache(firstKey)
+// Helper: delay dari header Retry-After (detik atau HTTP date), null jika tidak ada
+function getRetryAfterDelay(error) {
+  const header = error?.response?.headers?.get?.('retry-after')
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Helper: tunggu delay retry, batal jika signal di-abort
+function waitForRetry(delay, signal) {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Helper: jalankan validator (misalnya zod `parse`), lempar ValidationError jika
+// validator throw atau return false
+async function runValidation(validate, data, url) {
+  let valid
+  try {
+    valid = await validate(data)
+  } catch (err) {
+    throw new ValidationError(err?.message || 'Validasi response gagal', { data, url, cause: err })
+  }
+  if (valid === false) {
+    throw new ValidationError('Validasi response gagal', { data, url })
   }
 }
 
+// Helper: error dari hook yang memproses response (transform, select, onChunk) dilaporkan
+// sebagai kind 'parse', bukan network, agar request yang sudah diterima server tidak diantrekan ulang
+function toParseError(err, data, url) {
+  if (err instanceof FetchError) return err
+  return new FetchError(err?.message || 'Gagal memproses response', { kind: 'parse', data, url, cause: err })
+}
+
 /**
  * Composable untuk melakukan HTTP fetch dengan fitur caching otomatis.
  * Data akan di-cache berdasarkan URL dan waktu cache yang ditentukan.
+ * URL, `options.query` dan `options.body` boleh berupa ref/getter; perubahan
+ * nilainya otomatis membatalkan request yang sedang berjalan dan fetch ulang.
+ * Di server (SSR), request di-await lewat `onServerPrefetch` dan hasilnya masuk ke payload
+ * (lihat `serializeFetchPayload`); di client, data dari `hydrateFetchPayload` dipakai untuk
+ * render pertama tanpa request ulang.
+ *
+ * Default global (baseURL, headers, cacheTime, retry policy, interceptor) diambil dari
+ * `createFetchConfig` / `app.use(vue3Utils, { fetch })` jika ada, dan bisa di-override per call.
  *
- * @param {string} url - URL endpoint yang akan di-fetch
- * @param {Object} [options={}] - Opsi fetch API (method, headers, body, dll)
+ * @param {string|import('vue').Ref<string>|Function} url - URL endpoint yang akan di-fetch (string, ref, atau getter)
+ * @param {Object} [options={}] - Opsi fetch API (method, headers, body, dll). `query` dan `body` boleh berupa ref/getter
  * @param {Object} [config={}] - Konfigurasi tambahan
  * @param {number} [config.cacheTime=0] - Waktu cache dalam milidetik (0 = tidak menggunakan cache)
- * @param {boolean} [config.immediate=true] - Jalankan fetch otomatis saat mounted
- * @returns {Object} Object yang berisi state dan method fetch
+ * @param {number} [config.staleTime=cacheTime] - Umur cache (ms) yang masih dianggap fresh. Cache yang lebih tua dari
+ *   staleTime tapi belum melewati cacheTime langsung ditampilkan, lalu di-revalidate di background (stale-while-revalidate)
+ * @param {string|Object} [config.storage] - Storage cache: 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB'
+ *   atau adapter custom (default: storage global dari setDefaultCacheStorage, awalnya 'memory')
+ * @param {string} [config.key] - Cache key custom (override key otomatis)
+ * @param {Function} [config.getKey] - Builder cache key custom `({ url, ...options }) => string`
+ * @param {string[]} [config.varyHeaders=[]] - Nama header yang ikut membedakan cache key (misal 'accept-language')
+ * @param {string[]} [config.tags=[]] - Tags untuk invalidation via `invalidateQueries({ tags })`
+ * @param {number} [config.retry=0] - Jumlah maksimal retry saat request gagal
+ * @param {number|Function} [config.retryDelay=1000] - Delay awal retry dalam ms (dikali 2 setiap attempt, max 30 detik),
+ *   atau function `(attempt) => ms`. Header `Retry-After` dari response selalu diutamakan
+ * @param {Function} [config.shouldRetry] - Predicate `(error, attempt) => boolean`. Default: retry network error, 5xx dan 429
+ * @param {number} [config.timeout=0] - Batas waktu request dalam ms, termasuk semua retry (0 = tanpa timeout).
+ *   Request di-abort dan `error` berisi FetchError dengan kind 'timeout'
+ * @param {boolean} [config.dedupe=true] - Gabungkan request bersamaan dengan cache key yang sama menjadi satu request network
+ * @param {boolean} [config.ssrCache=false] - Pakai cache juga di server (SSR). Default mati karena cache server dibagi
+ *   antar user dan key tidak memuat header auth/cookie; aktifkan hanya untuk data publik
+ * @param {boolean} [config.immediate=true] - Jalankan fetch otomatis saat mounted dan saat url/query/body reactive berubah
+ * @param {boolean|import('vue').Ref<boolean>|Function} [config.enabled=true] - Boolean, ref atau getter. Selama falsy tidak ada
+ *   fetch sama sekali (termasuk refetch), dan fetch otomatis berjalan saat berubah dari falsy menjadi truthy (jika `immediate`)
+ * @param {boolean|Object} [config.offlineQueue] - Antrean dari `createOfflineQueue`, atau true untuk antrean default
+ *   (localStorage). Request non-GET saat offline atau gagal karena network error disimpan dan dikirim ulang saat online
+ * @param {boolean} [config.progress=false] - Baca body response bertahap untuk mengisi `downloadProgress`
+ * @param {string} [config.transport='fetch'] - 'fetch' atau 'xhr'. XHR dibutuhkan untuk `uploadProgress`
+ *   (upload file), dan juga mengisi `downloadProgress`
+ * @param {boolean|string} [config.stream] - Baca body secara streaming: 'text' (atau true), 'ndjson' atau 'sse'
+ *   (SSE via POST juga didukung). Chunk masuk ke `chunks`, data akhir berisi text lengkap / array chunk
+ * @param {Function} [config.onChunk] - Callback per chunk stream; jika diisi, chunk tidak ditampung di `chunks`
+ * @param {Function} [config.transform] - `(response) => data`, dijalankan sebelum validasi dan sebelum disimpan ke cache
+ * @param {Function} [config.select] - `(data) => value`, dijalankan per instance setelah data dibaca (cache tetap data penuh)
+ * @param {Function} [config.validate] - Validator `(data) => any` (misalnya zod `Schema.parse`). Throw atau return
+ *   false dianggap gagal dan error dikirim ke `error` sebagai `ValidationError` (data tidak di-cache)
+ * @param {number} [config.refetchInterval=0] - Polling tiap N ms (0 = nonaktif), di-pause saat tab tidak terlihat
+ * @param {boolean} [config.refetchOnWindowFocus=false] - Fetch ulang saat window kembali fokus / tab terlihat
+ * @param {boolean} [config.refetchOnReconnect=false] - Fetch ulang saat koneksi kembali online
+ * @returns {Object} Object yang berisi state dan method fetch. Bisa di-await (`await useFetch(...)`)
+ *   untuk menunggu fetch pertama selesai, misalnya di async setup dengan `<Suspense>`
  * @returns {import('vue').Ref<any>} returns.data - Data hasil fetch (null jika belum ada data)
- * @returns {import('vue').Ref<Error|null>} returns.error - Error object jika terjadi error
- * @returns {import('vue').Ref<boolean>} returns.loading - Status loading (true saat sedang fetch)
+ * @returns {import('vue').Ref<FetchError|null>} returns.error - FetchError ternormalisasi (`kind`, `status`, `data`, `url`)
+ *   jika terjadi error
+ * @returns {import('vue').Ref<boolean>} returns.loading - Status loading (true saat sedang fetch dan belum ada data cache yang ditampilkan)
+ * @returns {import('vue').Ref<boolean>} returns.isValidating - True selama request network berjalan, termasuk revalidate di background
+ * @returns {import('vue').Ref<number>} returns.attempt - Jumlah retry yang sudah dilakukan pada fetch terakhir
+ * @returns {import('vue').Ref<Object>} returns.uploadProgress - Progress upload `{ loaded, total, percent }` (transport 'xhr')
+ * @returns {import('vue').Ref<Object>} returns.downloadProgress - Progress download `{ loaded, total, percent }`
+ * @returns {import('vue').Ref<any[]>} returns.chunks - Chunk yang sudah diterima (mode `stream`)
+ * @returns {import('vue').Ref<boolean>} returns.queued - True jika request terakhir masuk antrean offline (`offlineQueue`)
  * @returns {Function} returns.refetch - Method untuk melakukan fetch ulang secara manual (bypass cache)
  * @returns {Function} returns.clearCache - Method untuk menghapus cache entry
  *
@@ -67,110 +199,560 @@ function enforceCacheLimit() {
  * );
  * // Trigger manual
  * await refetch();
+ *
+ * @example
+ * // Stale-while-revalidate: fresh 30 detik, cache disimpan 10 menit
+ * const { data, loading, isValidating } = useFetch(
+ *   'https://api.example.com/posts',
+ *   {},
+ *   { staleTime: 30 * 1000, cacheTime: 10 * 60 * 1000 }
+ * );
+ * // Setelah 30 detik, data lama langsung tampil (loading = false)
+ * // sementara isValidating = true selama fetch ulang di background
+ *
+ * @example
+ * // Cache persistent di localStorage (tetap ada setelah reload)
+ * const { data } = useFetch(
+ *   'https://api.example.com/countries',
+ *   {},
+ *   { cacheTime: 24 * 60 * 60 * 1000, storage: 'localStorage' }
+ * );
+ *
+ * @example
+ * // Retry 3x dengan exponential backoff (1s, 2s, 4s)
+ * const { data, error, attempt } = useFetch(
+ *   'https://api.example.com/unstable',
+ *   {},
+ *   { retry: 3, retryDelay: 1000 }
+ * );
+ *
+ * @example
+ * // URL dan query reactive (auto refetch saat berubah)
+ * const route = useRoute();
+ * const page = ref(1);
+ * const { data } = useFetch(
+ *   () => `https://api.example.com/users/${route.params.id}/posts`,
+ *   { query: computed(() => ({ page: page.value })) }
+ * );
+ * page.value++; // request lama dibatalkan, fetch ulang dengan page baru
+ *
+ * @example
+ * // Upload file dengan progress bar
+ * const { uploadProgress, refetch: upload } = useFetch(
+ *   'https://api.example.com/upload',
+ *   { method: 'POST', body: formData },
+ *   { immediate: false, transport: 'xhr' }
+ * );
+ * await upload(); // uploadProgress.value.percent: 0..100
+ *
+ * @example
+ * // Streaming response LLM (SSE via POST)
+ * const { chunks, loading } = useFetch(
+ *   'https://api.example.com/chat',
+ *   { method: 'POST', body: { prompt: 'Halo' } },
+ *   { stream: 'sse' }
+ * );
+ *
+ * @example
+ * // Async setup (Suspense): tunggu fetch pertama selesai
+ * const { data: user } = await useFetch('https://api.example.com/me');
+ *
+ * @example
+ * // Dashboard: polling tiap 10 detik + fetch ulang saat tab kembali aktif
+ * const { data: stats } = useFetch(
+ *   'https://api.example.com/stats',
+ *   {},
+ *   { refetchInterval: 10000, refetchOnWindowFocus: true, refetchOnReconnect: true }
+ * );
+ *
+ * @example
+ * // Dependent query: fetch org setelah user tersedia
+ * const { data: user } = useFetch('/api/me');
+ * const { data: org } = useFetch(
+ *   () => `/api/orgs/${user.value.orgId}`,
+ *   {},
+ *   { enabled: () => Boolean(user.value?.orgId) }
+ * );
  */
-export function useFetch(url, options = {}, { cacheTime = 0, immediate = true } = {}) {
+export function useFetch(url, options = {}, config = {}) {
+  // Default global dari createFetchConfig / app.use(vue3Utils), nilai per call menang
+  const withDefaults = applyFetchDefaults(injectFetchConfig(), options, config)
+  const baseOptions = withDefaults.options
+  const {
+    cacheTime = 0,
+    staleTime = cacheTime,
+    storage,
+    key,
+    getKey,
+    varyHeaders = [],
+    tags = [],
+    retry = 0,
+    retryDelay = 1000,
+    shouldRetry = defaultShouldRetry,
+    progress = false,
+    transport = 'fetch',
+    stream,
+    onChunk,
+    transform,
+    select,
+    validate,
+    timeout = 0,
+    dedupe = true,
+    ssrCache = false,
+    immediate = true,
+    enabled = true,
+    offlineQueue,
+    refetchInterval = 0,
+    refetchOnWindowFocus = false,
+    refetchOnReconnect = false
+  } = withDefaults.config
+
   const data = ref(null);
   const error = ref(null);
   const loading = ref(false);
-  const abortController = ref(null);
+  const isValidating = ref(false);
+  const attempt = ref(0);
+  const uploadProgress = ref(createProgress());
+  const downloadProgress = ref(createProgress());
+  const chunks = ref([]);
+  const queued = ref(false);
+
+  let abortController = null
+  let hasFetched = false
+  const cacheStorage = resolveCacheStorage(storage)
+  const server = isServer()
+  // Cache di server dibagi antar request user, dipakai hanya jika di-opt-in lewat ssrCache
+  const useCache = cacheTime > 0 && (!server || ssrCache)
+
+  // Dependent / conditional query: fetch hanya berjalan selama `enabled` truthy
+  const isEnabled = () => Boolean(resolveValue(enabled))
+
+  // Antrean offline hanya untuk request yang mengubah data (non-GET) dan hanya di client
+  const queue = server || !offlineQueue
+    ? null
+    : offlineQueue === true ? getDefaultOfflineQueue() : offlineQueue
+  const method = (baseOptions.method || 'GET').toUpperCase()
+  const queueable = Boolean(queue) && method !== 'GET' && method !== 'HEAD'
+
+  // Body yang tidak bisa disimpan (FormData, Blob, stream) tidak diantrekan: request dilaporkan
+  // gagal karena network dengan error antrean sebagai `cause`
+  const enqueueRequest = async () => {
+    try {
+      await queue.enqueue(resolveValue(url), resolveOptions())
+      queued.value = true
+    } catch (err) {
+      error.value = new FetchError('Request gagal dan tidak bisa disimpan ke antrean offline', {
+        kind: 'network',
+        url: resolveValue(url),
+        cause: err
+      })
+    }
+  }
+
+  // Progress dan stream milik instance ini, tidak bisa di-share lewat dedupe
+  const exclusiveRequest = progress || transport === 'xhr' || Boolean(stream)
+  const onUploadProgress = (value) => {
+    uploadProgress.value = value
+  }
+  const onDownloadProgress = (value) => {
+    downloadProgress.value = value
+  }
+
+  // Stream: chunk masuk ke `chunks` (atau ke onChunk jika diberikan). Hasil akhir:
+  // text digabung untuk format 'text', array chunk untuk 'ndjson'/'sse', null jika pakai onChunk
+  const executeStream = async (requestUrl, requestOptions) => {
+    const format = stream === true ? 'text' : stream
+    chunks.value = []
+
+    await streamRequest(requestUrl, requestOptions, {
+      format,
+      onChunk: (chunk) => {
+        if (requestOptions.signal.aborted) return
+        if (!onChunk) {
+          chunks.value.push(chunk)
+          return
+        }
+        try {
+          onChunk(chunk)
+        } catch (err) {
+          throw toParseError(err, chunk, requestUrl)
+        }
+      }
+    })
+
+    if (onChunk) return null
+    return format === 'text' ? chunks.value.join('') : [...chunks.value]
+  }
+
+  // Data penuh (sebelum select), yang disimpan ke cache / payload SSR
+  let rawData = null
+
+  // Set data: simpan data penuh, tampilkan hasil select untuk instance ini
+  const setData = (value) => {
+    rawData = value
+    if (!select || value === null || value === undefined) {
+      data.value = value
+      return
+    }
+    try {
+      data.value = select(value)
+    } catch (err) {
+      throw toParseError(err, value, resolveValue(url))
+    }
+  }
+
+  // Resolve query/body reactive menjadi plain value untuk ofetch
+  const resolveOptions = () => resolveRequestOptions(baseOptions)
 
-  // Buat cache key berdasarkan URL dan method
-  const cacheKey = `${options.method || 'GET'}:${url}`
+  // Buat cache key dari method, URL, query, body dan vary-headers
+  // (dihitung ulang karena URL/query/body bisa reactive)
+  const getCacheKey = () => {
+    if (key) return key
+    const requestUrl = resolveValue(url)
+    const requestOptions = resolveOptions()
+    return getKey
+      ? getKey({ url: requestUrl, ...requestOptions })
+      : createQueryKey(requestUrl, requestOptions, { varyHeaders })
+  }
 
   // Cleanup function
   const cleanup = () => {
-    if (abortController.value) {
-      abortController.value.abort()
-      abortController.value = null
+    if (abortController) {
+      abortController.abort()
+      abortController = null
     }
   }
 
   // Clear cache untuk URL ini
-  const clearCache = () => {
-    cleanupExpiredCache(cacheKey)
-  }
+  const clearCache = () => cacheStorage.delete(getCacheKey())
+
+  // Promise fetch terakhir, ditunggu oleh `await useFetch(...)`
+  let currentFetch = Promise.resolve(null)
 
   // Fetch data function
-  const fetchData = async (bypassCache = false) => {
+  const executeFetch = async (bypassCache = false) => {
     // Cancel previous request
     cleanup()
+    hasFetched = true
+
+    const cacheKey = getCacheKey()
+
+    // Create abort controller untuk request ini
+    const controller = new AbortController()
+    abortController = controller
+    let timeoutId = null
+    let timedOut = false
+    // Response dari transport, tetap undefined jika request gagal sebelum response diterima
+    let response
 
     loading.value = true;
     error.value = null;
+    queued.value = false
 
     try {
       // Check cache
-      if (!bypassCache && cacheTime > 0) {
-        const cached = cache.get(cacheKey);
+      if (!bypassCache && useCache) {
+        // Storage bisa async (IndexedDB), selalu await untuk konsistensi
+        const cached = await cacheStorage.get(cacheKey);
         const now = Date.now();
 
+        // Request sudah digantikan oleh fetch yang lebih baru
+        if (controller.signal.aborted) return null
+
         if (cached && now - cached.timestamp < cacheTime) {
-          // Use await to ensure async consistency
-          await Promise.resolve()
-          data.value = cached.data
-          return cached.data
+          setData(cached.data)
+
+          // Masih fresh, tidak perlu request
+          if (now - cached.timestamp < staleTime) {
+            return data.value
+          }
+
+          // Stale: data lama sudah tampil, revalidate di background
+          loading.value = false
         }
 
         // Expired cache
         if (cached && now - cached.timestamp >= cacheTime) {
-          cleanupExpiredCache(cacheKey)
+          await cacheStorage.delete(cacheKey)
         }
       }
 
-      // Create abort controller untuk request ini
-      abortController.value = new AbortController()
+      // Offline: simpan ke antrean, dikirim ulang saat koneksi kembali
+      if (queueable && isOffline()) {
+        await enqueueRequest()
+        return null
+      }
 
-      const response = await ofetch(url, {
-        ...options,
-        signal: abortController.value.signal
-      })
+      isValidating.value = true
+      uploadProgress.value = createProgress()
+      downloadProgress.value = createProgress()
+
+      // Timeout berlaku untuk seluruh request termasuk retry
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeout)
+      }
+
+      const executor = (signal) => {
+        const requestUrl = resolveValue(url)
+        const requestOptions = {
+          // Retry ditangani di sini, matikan retry bawaan ofetch agar tidak dobel
+          ...(retry > 0 && { retry: 0 }),
+          ...resolveOptions(),
+          signal
+        }
+
+        if (stream) {
+          return executeStream(requestUrl, requestOptions)
+        }
+        if (transport === 'xhr') {
+          return xhrRequest(requestUrl, requestOptions, { onUploadProgress, onDownloadProgress })
+        }
+        return progress
+          ? fetchWithProgress(requestUrl, requestOptions, onDownloadProgress)
+          : ofetch(requestUrl, requestOptions)
+      }
+
+      attempt.value = 0
+
+      while (true) {
+        try {
+          // Dedupe dimatikan di server agar request antar user tidak tercampur
+          response = dedupe && !server && !exclusiveRequest
+            ? await joinSharedRequest(cacheKey, executor, controller.signal)
+            : await executor(controller.signal)
+          break
+        } catch (err) {
+          if (
+            err.name === 'AbortError' ||
+            attempt.value >= retry ||
+            !shouldRetry(err, attempt.value + 1)
+          ) {
+            throw err
+          }
+
+          attempt.value++
+          const delay = getRetryAfterDelay(err) ?? (
+            typeof retryDelay === 'function'
+              ? retryDelay(attempt.value)
+              : Math.min(retryDelay * 2 ** (attempt.value - 1), MAX_RETRY_DELAY)
+          )
+          await waitForRetry(delay, controller.signal)
+        }
+      }
+
+      if (controller.signal.aborted) {
+        // Stream yang tergantung lalu di-abort oleh timeout tetap dilaporkan sebagai timeout
+        if (timedOut) throw new DOMException('The operation was aborted.', 'AbortError')
+        return null
+      }
 
-      data.value = response
+      let result = response
+      if (transform) {
+        try {
+          result = await transform(response)
+        } catch (err) {
+          throw toParseError(err, response, resolveValue(url))
+        }
+      }
+      if (validate) await runValidation(validate, result, resolveValue(url))
+
+      setData(result)
 
       // Save to cache
-      if (cacheTime > 0) {
-        enforceCacheLimit()
-        cache.set(cacheKey, { data: response, timestamp: Date.now() })
-
-        // Auto cleanup setelah expire
-        const timer = setTimeout(() => {
-          cleanupExpiredCache(cacheKey)
-        }, cacheTime)
-        cacheTimers.set(cacheKey, timer)
+      if (useCache) {
+        const timestamp = Date.now()
+        await cacheStorage.set(cacheKey, {
+          data: result,
+          timestamp,
+          expiresAt: timestamp + cacheTime,
+          url: resolveValue(url),
+          ...(tags.length > 0 && { tags })
+        })
       }
 
       error.value = null // Clear any previous errors on success
-      return response
+      return data.value
     } catch (err) {
-      // Ignore abort errors
-      if (err.name !== 'AbortError') {
-        error.value = err
+      // Abort karena request diganti / unmount diabaikan, abort karena timeout dilaporkan
+      if (err.name === 'AbortError' && !timedOut) return null
+
+      const fetchError = normalizeFetchError(err, { url: resolveValue(url), timedOut, timeout })
+      // Hanya kegagalan transport pada request non-GET yang masuk antrean offline. Error setelah
+      // response diterima (transform, select, validate) tidak diantrekan agar write tidak terkirim dua kali
+      if (queueable && fetchError.kind === 'network' && response === undefined) {
+        await enqueueRequest()
+      } else {
+        error.value = fetchError
       }
       return null
     } finally {
-      loading.value = false
-      abortController.value = null
+      clearTimeout(timeoutId)
+      // Jangan reset state milik request yang lebih baru
+      if (abortController === controller) {
+        loading.value = false
+        isValidating.value = false
+        abortController = null
+      }
     }
   }
 
+  const fetchData = (bypassCache = false) => {
+    if (!isEnabled()) return Promise.resolve(null)
+    currentFetch = executeFetch(bypassCache)
+    return currentFetch
+  }
+
+  // Tunggu sampai tidak ada fetch yang lebih baru (fetch yang di-abort diganti fetch baru)
+  const waitForFetch = async () => {
+    let pending
+    do {
+      pending = currentFetch
+      await pending
+    } while (pending !== currentFetch)
+  }
+
   // Refetch (bypass cache)
   const refetch = () => fetchData(true)
 
-  // Auto fetch jika immediate = true
-  if (immediate) {
+  const state = {
+    data,
+    error,
+    loading,
+    isValidating,
+    attempt,
+    uploadProgress,
+    downloadProgress,
+    chunks,
+    queued,
+    refetch,
+    clearCache
+  }
+
+  // SSR prefetch (di-set di bawah), dipakai bersama oleh onServerPrefetch dan `await useFetch()`
+  let prefetch = null
+
+  // Thenable untuk `await useFetch(...)` (Suspense / async setup). Resolve ke state
+  // tanpa `then` agar tidak di-await berulang; refs tetap reactive setelahnya.
+  // Sengaja tanpa `catch` agar Vue tidak menganggap return value setup sebagai Promise.
+  const awaitable = {
+    ...state,
+    then(onFulfilled, onRejected) {
+      const ready = prefetch ? prefetch() : waitForFetch()
+      return ready.then(() => state).then(onFulfilled, onRejected)
+    }
+  }
+
+  // SSR: fetch di-await lewat onServerPrefetch dan hasilnya dicatat ke payload.
+  // Watcher, polling, listener dan registry tidak dipasang karena tidak ada unmount di server.
+  if (server) {
+    if (immediate && isEnabled()) {
+      const instance = getCurrentInstance()
+      const ssrContext = instance ? useSSRContext() : undefined
+      let prefetchPromise = null
+      prefetch = () => {
+        if (!prefetchPromise) {
+          prefetchPromise = fetchData().then(() => {
+            if (!error.value) recordFetchPayload(ssrContext, getCacheKey(), rawData)
+          })
+        }
+        return prefetchPromise
+      }
+
+      if (instance) onServerPrefetch(prefetch)
+      else prefetch()
+    }
+    return awaitable
+  }
+
+  // Hydration: pakai data dari payload SSR untuk render pertama tanpa request kedua
+  const hydrated = immediate && isEnabled() ? takeHydratedEntry(getCacheKey()) : undefined
+  if (hydrated) {
+    setData(hydrated.data)
+    hasFetched = true
+    if (cacheTime > 0) {
+      cacheStorage.set(getCacheKey(), {
+        data: hydrated.data,
+        timestamp: hydrated.timestamp,
+        expiresAt: hydrated.timestamp + cacheTime,
+        url: resolveValue(url),
+        ...(tags.length > 0 && { tags })
+      })
+    }
+  } else if (immediate) {
+    // Auto fetch jika immediate = true
     fetchData()
   }
 
+  // Watch key url/query/body reactive dan `enabled` (hanya mode auto). Source berupa string/null,
+  // sehingga fetch ulang hanya saat `enabled` berubah false -> true atau key berubah, bukan setiap
+  // dependency getter berubah. Selama nonaktif url tidak di-resolve, jadi getter yang bergantung
+  // pada query lain aman
+  const stopWatch = immediate
+    ? watch(
+        () => (isEnabled() ? getRequestSourceKey(url, options) : null),
+        (sourceKey) => {
+          if (sourceKey !== null) fetchData()
+        }
+      )
+    : null
+
+  // Fetch ulang dari polling/focus/reconnect. Tetap lewat cache (fresh cache tidak memicu
+  // request), dan dilewati jika belum pernah fetch atau masih ada request berjalan
+  const revalidate = () => {
+    if (!hasFetched || abortController) return
+    fetchData()
+  }
+
+  const isDocumentHidden = () =>
+    typeof document !== 'undefined' && document.visibilityState === 'hidden'
+
+  // Polling, di-pause saat tab tidak terlihat
+  const pollTimer = refetchInterval > 0
+    ? setInterval(() => {
+        if (!isDocumentHidden()) revalidate()
+      }, refetchInterval)
+    : null
+
+  const onFocus = () => {
+    if (!isDocumentHidden()) revalidate()
+  }
+
+  const hasWindow = typeof window !== 'undefined'
+  if (hasWindow && refetchOnWindowFocus) {
+    window.addEventListener('focus', onFocus)
+    document.addEventListener('visibilitychange', onFocus)
+  }
+  if (hasWindow && refetchOnReconnect) {
+    window.addEventListener('online', revalidate)
+  }
+
+  // Daftarkan ke registry agar bisa di-invalidate dari luar (invalidateQueries)
+  const unregister = registerQuery({
+    getMeta: () => ({ key: getCacheKey(), url: resolveValue(url), tags }),
+    invalidate: async () => {
+      await clearCache()
+      // Hanya fetch ulang instance yang sudah pernah fetch
+      if (hasFetched) await refetch()
+    },
+    getData: () => rawData,
+    setData
+  })
+
   // Cleanup on unmount
   onUnmounted(() => {
+    unregister()
+    stopWatch?.()
+    if (pollTimer) clearInterval(pollTimer)
+    if (hasWindow) {
+      window.removeEventListener('focus', onFocus)
+      document.removeEventListener('visibilitychange', onFocus)
+      window.removeEventListener('online', revalidate)
+    }
     cleanup()
   })
 
-  return {
-    data,
-    error,
-    loading,
-    refetch,
-    clearCache
-  };
+  return awaitable;
 }
\ No newline at end of file
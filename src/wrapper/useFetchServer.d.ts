@@ -1,11 +1,12 @@
 import type { Ref } from 'vue'
 import type { FetchOptions } from 'ofetch'
-import type { FetchManagerOptions } from '../core/FetchManager'
+import type { FetchManagerInterceptor, FetchManagerOptions } from '../core/FetchManager'
 
 export interface UseFetchServerReturn {
   fetchWithAuth: <T = any>(url: string, options?: FetchOptions) => Promise<T>
   isRefreshing: Ref<boolean>
-  clearTokens: () => void
+  clearTokens: () => void | Promise<void>
+  use: (interceptor: FetchManagerInterceptor) => () => void
 }
 
 export declare function useFetchServer(
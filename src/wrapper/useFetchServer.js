@@ -11,6 +11,7 @@ import { FetchManager } from '../core/FetchManager'
  * @property {Function} fetchWithAuth - Fungsi fetch dengan auth & auto token refresh
  * @property {import('vue').Ref<boolean>} isRefreshing - Status refresh token (readonly)
  * @property {Function} clearTokens - Helper untuk clear semua tokens dari storage
+ * @property {Function} use - Tambah interceptor request/response, return function untuk melepasnya
  *
  * @example
  * // Basic usage
@@ -57,17 +58,16 @@ export function useFetchServer(baseUrl, options = {}) {
     return fetchManager.fetch(url, fetchOptions)
   }
 
-  // Clear tokens helper - gunakan custom clearTokens jika ada
-  const clearTokens = options.clearTokens || (() => {
-    if (typeof localStorage !== 'undefined') {
-      localStorage.removeItem('accessToken')
-      localStorage.removeItem('refreshToken')
-      localStorage.removeItem('refreshTokenExpiration')
-    }
-  })
+  // Interceptor pipeline milik FetchManager
+  const use = (interceptor) => fetchManager.use(interceptor)
+
+  // Clear tokens helper - custom clearTokens atau token store milik FetchManager
+  const clearTokens = () => fetchManager.clearTokens()
 
   // Cleanup on unmount
   onUnmounted(() => {
+    // Hentikan scheduler refresh proaktif milik instance ini
+    fetchManager.destroy()
     if (fetchManager.refreshPromise) {
       fetchManager.isRefreshing = false
       fetchManager.refreshPromise = null
@@ -77,6 +77,7 @@ export function useFetchServer(baseUrl, options = {}) {
   return {
     fetchWithAuth,
     isRefreshing,
-    clearTokens
+    clearTokens,
+    use
   }
 }
\ No newline at end of file
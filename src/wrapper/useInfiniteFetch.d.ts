@@ -0,0 +1,154 @@
+import { Ref, ComputedRef } from "vue";
+import type { CacheStorage, CacheStorageName } from '../core/cacheStorage'
+import type { MaybeRefOrGetter, UseFetchOptions } from './useFetch'
+
+/**
+ * Opsi konfigurasi untuk useInfiniteFetch
+ */
+export interface UseInfiniteFetchConfig<T = any, TPageParam = any> {
+  /**
+   * Menentukan param halaman berikutnya dari halaman terakhir.
+   * Return null/undefined jika tidak ada halaman lagi
+   */
+  getNextPageParam: (lastPage: T, pages: T[]) => TPageParam | null | undefined;
+
+  /**
+   * Param untuk halaman pertama
+   * @default 1
+   */
+  initialPageParam?: TPageParam;
+
+  /**
+   * Nama query parameter untuk param halaman
+   * @default 'page'
+   */
+  pageParamKey?: string;
+
+  /**
+   * Waktu cache semua halaman dalam milidetik (0 = tidak ada cache)
+   * @default 0
+   */
+  cacheTime?: number;
+
+  /**
+   * Storage untuk menyimpan cache: nama storage bawaan atau adapter custom
+   * @default Storage global dari setDefaultCacheStorage ('memory')
+   */
+  storage?: CacheStorageName | CacheStorage;
+
+  /**
+   * Cache key custom (override key otomatis)
+   */
+  key?: string;
+
+  /**
+   * Nama header yang ikut membedakan cache key
+   * @default []
+   */
+  varyHeaders?: string[];
+
+  /**
+   * Tags untuk invalidation via `invalidateQueries({ tags })`
+   * @default []
+   */
+  tags?: string[];
+
+  /**
+   * Fetch halaman pertama otomatis, dan reset saat url/query/body reactive berubah
+   * @default true
+   */
+  immediate?: boolean;
+}
+
+/**
+ * Data infinite query yang disimpan di cache (satu entry untuk semua halaman)
+ */
+export interface InfiniteData<T = any, TPageParam = any> {
+  pages: T[];
+  pageParams: TPageParam[];
+}
+
+/**
+ * Return type dari useInfiniteFetch composable
+ */
+export interface UseInfiniteFetchReturn<T = any, TPageParam = any> {
+  /**
+   * Semua halaman yang sudah di-fetch
+   */
+  pages: Ref<T[]>;
+
+  /**
+   * Param untuk setiap halaman
+   */
+  pageParams: Ref<TPageParam[]>;
+
+  /**
+   * Error object jika terjadi kesalahan
+   */
+  error: Ref<Error | null>;
+
+  /**
+   * True saat fetch halaman pertama
+   */
+  loading: Ref<boolean>;
+
+  /**
+   * True saat fetch halaman berikutnya
+   */
+  isFetchingNextPage: Ref<boolean>;
+
+  /**
+   * True jika masih ada halaman berikutnya
+   */
+  hasNextPage: ComputedRef<boolean>;
+
+  /**
+   * Fetch halaman berikutnya (diabaikan jika tidak ada halaman lagi atau masih loading)
+   * @returns Promise dengan semua halaman
+   */
+  fetchNextPage: () => Promise<T[] | null>;
+
+  /**
+   * Fetch ulang dari halaman pertama (bypass cache)
+   * @returns Promise dengan semua halaman
+   */
+  refetch: () => Promise<T[] | null>;
+
+  /**
+   * Fungsi untuk menghapus cache entry
+   */
+  clearCache: () => void;
+}
+
+/**
+ * Composable untuk list paginated / infinite scroll
+ *
+ * Features:
+ * - `getNextPageParam(lastPage, pages)` untuk page number maupun cursor
+ * - State `pages`, `hasNextPage` dan `isFetchingNextPage`
+ * - Semua halaman di-cache di bawah satu cache key
+ * - Reset ke halaman pertama saat url/query/body reactive berubah
+ * - Invalidation via `invalidateQueries`
+ *
+ * @param url - URL endpoint (string, ref, atau getter)
+ * @param options - Opsi ofetch (method, headers, query, dll)
+ * @param config - Konfigurasi pagination dan cache
+ * @returns Object berisi pages, hasNextPage, fetchNextPage, dan lainnya
+ * @throws Error jika `getNextPageParam` bukan function
+ *
+ * @example
+ * ```ts
+ * const { pages, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteFetch<PostPage>(
+ *   '/api/posts',
+ *   { query: { limit: 20 } },
+ *   { getNextPageParam: (lastPage) => lastPage.nextPage }
+ * )
+ *
+ * if (hasNextPage.value) await fetchNextPage()
+ * ```
+ */
+export declare function useInfiniteFetch<T = any, TPageParam = any>(
+  url: MaybeRefOrGetter<string>,
+  options: UseFetchOptions | undefined,
+  config: UseInfiniteFetchConfig<T, TPageParam>
+): UseInfiniteFetchReturn<T, TPageParam>;
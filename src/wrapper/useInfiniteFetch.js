@@ -0,0 +1,258 @@
+import { ref, computed, watch, onUnmounted } from "vue";
+import { ofetch } from 'ofetch'
+import { resolveCacheStorage } from '../core/cacheStorage.js'
+import { registerQuery, createQueryKey } from '../core/queryClient.js'
+import { resolveValue, resolveRequestOptions, getRequestSourceKey } from '../core/requestOptions.js'
+
+/**
+ * Composable untuk list paginated / infinite scroll ("load more").
+ * Halaman pertama di-fetch otomatis, halaman berikutnya lewat `fetchNextPage`.
+ * Param halaman berikutnya ditentukan oleh `getNextPageParam(lastPage, pages)` dan
+ * dikirim sebagai query `pageParamKey`. Semua halaman di-cache di bawah satu cache key.
+ *
+ * @param {string|import('vue').Ref<string>|Function} url - URL endpoint (string, ref, atau getter)
+ * @param {Object} [options={}] - Opsi fetch API (method, headers, dll). `query` dan `body` boleh berupa ref/getter
+ * @param {Object} [config={}] - Konfigurasi tambahan
+ * @param {Function} config.getNextPageParam - `(lastPage, pages) => param`. Return null/undefined jika tidak ada halaman lagi
+ * @param {any} [config.initialPageParam=1] - Param untuk halaman pertama
+ * @param {string} [config.pageParamKey='page'] - Nama query parameter untuk param halaman
+ * @param {number} [config.cacheTime=0] - Waktu cache semua halaman dalam milidetik (0 = tidak menggunakan cache)
+ * @param {string|Object} [config.storage] - Storage cache (default: storage global)
+ * @param {string} [config.key] - Cache key custom (override key otomatis)
+ * @param {string[]} [config.varyHeaders=[]] - Nama header yang ikut membedakan cache key
+ * @param {string[]} [config.tags=[]] - Tags untuk invalidation via `invalidateQueries({ tags })`
+ * @param {boolean} [config.immediate=true] - Fetch halaman pertama otomatis dan reset saat url/query/body reactive berubah
+ * @returns {Object} Object yang berisi state dan method fetch
+ * @returns {import('vue').Ref<any[]>} returns.pages - Semua halaman yang sudah di-fetch
+ * @returns {import('vue').Ref<any[]>} returns.pageParams - Param untuk setiap halaman
+ * @returns {import('vue').Ref<Error|null>} returns.error - Error object jika terjadi error
+ * @returns {import('vue').Ref<boolean>} returns.loading - True saat fetch halaman pertama
+ * @returns {import('vue').Ref<boolean>} returns.isFetchingNextPage - True saat fetch halaman berikutnya
+ * @returns {import('vue').ComputedRef<boolean>} returns.hasNextPage - True jika masih ada halaman berikutnya
+ * @returns {Function} returns.fetchNextPage - Fetch halaman berikutnya
+ * @returns {Function} returns.refetch - Fetch ulang dari halaman pertama (bypass cache)
+ * @returns {Function} returns.clearCache - Method untuk menghapus cache entry
+ * @throws {Error} Jika `getNextPageParam` bukan function
+ *
+ * @example
+ * const { pages, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteFetch(
+ *   'https://api.example.com/posts',
+ *   { query: { limit: 20 } },
+ *   { getNextPageParam: (lastPage) => lastPage.nextPage ?? null }
+ * );
+ *
+ * // Tombol "load more"
+ * if (hasNextPage.value) await fetchNextPage();
+ *
+ * @example
+ * // Cursor based
+ * const { pages, fetchNextPage } = useInfiniteFetch('/api/feed', {}, {
+ *   initialPageParam: null,
+ *   pageParamKey: 'cursor',
+ *   getNextPageParam: (lastPage) => lastPage.nextCursor
+ * });
+ */
+export function useInfiniteFetch(url, options = {}, {
+  getNextPageParam,
+  initialPageParam = 1,
+  pageParamKey = 'page',
+  cacheTime = 0,
+  storage,
+  key,
+  varyHeaders = [],
+  tags = [],
+  immediate = true
+} = {}) {
+  if (typeof getNextPageParam !== 'function') {
+    throw new Error('[useInfiniteFetch] getNextPageParam wajib berupa function')
+  }
+
+  const pages = ref([]);
+  const pageParams = ref([]);
+  const error = ref(null);
+  const loading = ref(false);
+  const isFetchingNextPage = ref(false);
+
+  let abortController = null
+  let hasFetched = false
+  const cacheStorage = resolveCacheStorage(storage)
+
+  // Resolve query/body reactive menjadi plain value untuk ofetch
+  const resolveOptions = () => resolveRequestOptions(options)
+
+  // Satu cache key untuk semua halaman (tanpa param halaman),
+  // diberi prefix agar tidak bentrok dengan useFetch ke URL yang sama
+  const getCacheKey = () =>
+    key || `infinite:${createQueryKey(resolveValue(url), resolveOptions(), { varyHeaders })}`
+
+  // Param halaman berikutnya, null/undefined jika sudah habis
+  const getNextParam = () => {
+    if (pages.value.length === 0) return undefined
+    return getNextPageParam(pages.value[pages.value.length - 1], pages.value)
+  }
+
+  const hasNextPage = computed(() => {
+    const next = getNextParam()
+    return next !== null && next !== undefined
+  })
+
+  // Cleanup function
+  const cleanup = () => {
+    if (abortController) {
+      abortController.abort()
+      abortController = null
+    }
+  }
+
+  const clearCache = () => cacheStorage.delete(getCacheKey())
+
+  const requestPage = (pageParam, signal) => {
+    const requestOptions = resolveOptions()
+    return ofetch(resolveValue(url), {
+      ...requestOptions,
+      query: { ...requestOptions.query, [pageParamKey]: pageParam },
+      signal
+    })
+  }
+
+  const saveCache = async (cacheKey) => {
+    if (cacheTime <= 0) return
+
+    const timestamp = Date.now()
+    await cacheStorage.set(cacheKey, {
+      data: { pages: pages.value, pageParams: pageParams.value },
+      timestamp,
+      expiresAt: timestamp + cacheTime,
+      url: resolveValue(url),
+      ...(tags.length > 0 && { tags })
+    })
+  }
+
+  // Fetch halaman pertama, semua halaman lama dibuang
+  const fetchFirstPage = async (bypassCache = false) => {
+    cleanup()
+    hasFetched = true
+
+    const cacheKey = getCacheKey()
+    const controller = new AbortController()
+    abortController = controller
+
+    loading.value = true
+    isFetchingNextPage.value = false
+    error.value = null
+
+    try {
+      if (!bypassCache && cacheTime > 0) {
+        const cached = await cacheStorage.get(cacheKey)
+        if (controller.signal.aborted) return null
+
+        if (cached && Date.now() - cached.timestamp < cacheTime) {
+          pages.value = cached.data.pages
+          pageParams.value = cached.data.pageParams
+          return pages.value
+        }
+      }
+
+      const page = await requestPage(initialPageParam, controller.signal)
+      if (controller.signal.aborted) return null
+
+      pages.value = [page]
+      pageParams.value = [initialPageParam]
+      await saveCache(cacheKey)
+
+      return pages.value
+    } catch (err) {
+      if (err.name !== 'AbortError') {
+        error.value = err
+      }
+      return null
+    } finally {
+      if (abortController === controller) {
+        loading.value = false
+        abortController = null
+      }
+    }
+  }
+
+  // Fetch halaman berikutnya dan tambahkan ke pages
+  const fetchNextPage = async () => {
+    if (!hasNextPage.value || loading.value || isFetchingNextPage.value) return null
+
+    const cacheKey = getCacheKey()
+    const pageParam = getNextParam()
+    const controller = new AbortController()
+    abortController = controller
+
+    isFetchingNextPage.value = true
+    error.value = null
+
+    try {
+      const page = await requestPage(pageParam, controller.signal)
+      if (controller.signal.aborted) return null
+
+      pages.value = [...pages.value, page]
+      pageParams.value = [...pageParams.value, pageParam]
+      await saveCache(cacheKey)
+
+      return pages.value
+    } catch (err) {
+      if (err.name !== 'AbortError') {
+        error.value = err
+      }
+      return null
+    } finally {
+      if (abortController === controller) {
+        isFetchingNextPage.value = false
+        abortController = null
+      }
+    }
+  }
+
+  // Refetch dari halaman pertama (bypass cache)
+  const refetch = () => fetchFirstPage(true)
+
+  if (immediate) {
+    fetchFirstPage()
+  }
+
+  // Reset ke halaman pertama saat key url/query/body reactive berubah (hanya mode auto)
+  const stopWatch = immediate
+    ? watch(
+        () => getRequestSourceKey(url, options),
+        () => fetchFirstPage()
+      )
+    : null
+
+  // Daftarkan ke registry agar bisa di-invalidate dari luar (invalidateQueries)
+  const unregister = registerQuery({
+    getMeta: () => ({ key: getCacheKey(), url: resolveValue(url), tags }),
+    invalidate: async () => {
+      await clearCache()
+      if (hasFetched) await refetch()
+    },
+    getData: () => ({ pages: pages.value, pageParams: pageParams.value }),
+    setData: (value) => {
+      pages.value = value?.pages ?? []
+      pageParams.value = value?.pageParams ?? []
+    }
+  })
+
+  // Cleanup on unmount
+  onUnmounted(() => {
+    unregister()
+    stopWatch?.()
+    cleanup()
+  })
+
+  return {
+    pages,
+    pageParams,
+    error,
+    loading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    refetch,
+    clearCache
+  };
+}
@@ -0,0 +1,125 @@
+import { Ref } from "vue";
+import type { FetchOptions } from 'ofetch'
+import type { CacheStorage, CacheStorageName } from '../core/cacheStorage'
+import type { QueryFilter } from '../core/queryClient'
+
+/**
+ * Opsi ofetch untuk useMutation, dengan `body` yang boleh dibuat dari variables
+ */
+export interface UseMutationOptions<TVariables = any> extends Omit<FetchOptions, 'body'> {
+  /**
+   * Request body, atau function `(variables) => body`.
+   * Jika tidak diisi, variables dari `mutate` dikirim sebagai body
+   */
+  body?: any | ((variables: TVariables) => any);
+}
+
+/**
+ * Opsi konfigurasi untuk useMutation
+ */
+export interface UseMutationConfig<T = any, TVariables = any, TContext = any> {
+  /**
+   * Dipanggil sebelum request. Nilai return diteruskan sebagai `context`
+   * ke hook lain (misalnya snapshot data untuk rollback)
+   */
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+
+  /**
+   * Dipanggil saat request berhasil. Error dari hook ini atau `invalidate` dicatat ke console,
+   * tidak men-set `error` dan tidak memicu `onError`
+   */
+  onSuccess?: (data: T, variables: TVariables, context: TContext | undefined) => unknown;
+
+  /**
+   * Dipanggil saat request gagal (tempat rollback optimistic update)
+   */
+  onError?: (error: Error, variables: TVariables, context: TContext | undefined) => unknown;
+
+  /**
+   * Selalu dipanggil setelah sukses atau gagal
+   */
+  onSettled?: (
+    data: T | null,
+    error: Error | null,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => unknown;
+
+  /**
+   * Filter `invalidateQueries` yang dijalankan setelah mutation sukses
+   */
+  invalidate?: QueryFilter | QueryFilter[];
+
+  /**
+   * Storage cache yang dipakai untuk invalidation
+   * @default Storage global
+   */
+  storage?: CacheStorageName | CacheStorage;
+}
+
+/**
+ * Return type dari useMutation composable
+ */
+export interface UseMutationReturn<T = any, TVariables = any> {
+  /**
+   * Data response mutation terakhir
+   */
+  data: Ref<T | null>;
+
+  /**
+   * Error mutation terakhir
+   */
+  error: Ref<Error | null>;
+
+  /**
+   * True selama mutation berjalan
+   */
+  loading: Ref<boolean>;
+
+  /**
+   * Jalankan mutation
+   * @returns Promise dengan data response (null jika gagal)
+   */
+  mutate: (variables?: TVariables) => Promise<T | null>;
+
+  /**
+   * Reset data dan error ke kondisi awal
+   */
+  reset: () => void;
+}
+
+/**
+ * Composable untuk request yang mengubah data (POST/PUT/PATCH/DELETE)
+ *
+ * Features:
+ * - Tidak berjalan otomatis, dipicu lewat `mutate(variables)`
+ * - Hook `onMutate`, `onSuccess`, `onError`, `onSettled`
+ * - Optimistic update ke cache useFetch via `setQueryData` dengan rollback di `onError`
+ * - Invalidation cache useFetch otomatis setelah sukses
+ *
+ * @param url - URL endpoint, ref, atau function `(variables) => url`
+ * @param options - Opsi ofetch (default method 'POST')
+ * @param config - Hook lifecycle dan invalidation
+ * @returns Object berisi data, error, loading, mutate, dan reset
+ *
+ * @example
+ * ```ts
+ * const todosKey = createQueryKey('/api/todos', { baseURL: API_BASE_URL })
+ * const { mutate, loading } = useMutation<Todo, NewTodo, { previous?: Todo[] }>('/api/todos', {}, {
+ *   onMutate: async (todo) => {
+ *     const previous = await getQueryData<Todo[]>(todosKey)
+ *     await setQueryData<Todo[]>(todosKey, (todos = []) => [...todos, { id: -1, ...todo }])
+ *     return { previous }
+ *   },
+ *   onError: (error, todo, context) => setQueryData(todosKey, context?.previous),
+ *   invalidate: '/api/todos'
+ * })
+ *
+ * await mutate({ title: 'Belajar Vue' })
+ * ```
+ */
+export declare function useMutation<T = any, TVariables = any, TContext = any>(
+  url: string | Ref<string> | ((variables: TVariables) => string),
+  options?: UseMutationOptions<TVariables>,
+  config?: UseMutationConfig<T, TVariables, TContext>
+): UseMutationReturn<T, TVariables>;
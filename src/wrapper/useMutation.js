@@ -0,0 +1,135 @@
+import { ref, unref } from "vue";
+import { ofetch } from 'ofetch'
+import { invalidateQueries } from '../core/queryClient.js'
+
+// Helper: resolve URL yang bisa berupa string, ref, atau function `(variables) => string`
+function resolveUrl(url, variables) {
+  return typeof url === 'function' ? url(variables) : unref(url)
+}
+
+/**
+ * Composable untuk request yang mengubah data (POST/PUT/PATCH/DELETE).
+ * Berbeda dengan useFetch, request tidak berjalan otomatis - dipicu lewat `mutate(variables)`.
+ * Hook `onMutate` bisa dipakai untuk optimistic update ke cache useFetch (via `setQueryData`),
+ * dengan rollback di `onError` memakai context yang dikembalikan `onMutate`.
+ *
+ * @param {string|import('vue').Ref<string>|Function} url - URL endpoint, ref, atau function `(variables) => url`
+ * @param {Object} [options={}] - Opsi ofetch (method, headers, dll). Default method 'POST'.
+ *   `body` boleh berupa function `(variables) => body`; jika tidak diisi, variables dikirim sebagai body
+ * @param {Object} [config={}] - Konfigurasi tambahan
+ * @param {Function} [config.onMutate] - `(variables) => context`, dipanggil sebelum request (optimistic update)
+ * @param {Function} [config.onSuccess] - `(data, variables, context)`, dipanggil saat request berhasil.
+ *   Error dari onSuccess atau `invalidate` dicatat ke console, tidak memicu onError
+ * @param {Function} [config.onError] - `(error, variables, context)`, dipanggil saat request gagal (rollback)
+ * @param {Function} [config.onSettled] - `(data, error, variables, context)`, selalu dipanggil di akhir
+ * @param {Array|string|Function|Object} [config.invalidate] - Filter `invalidateQueries` yang dijalankan setelah sukses
+ * @param {string|Object} [config.storage] - Storage cache untuk invalidation (default: storage global)
+ * @returns {Object} Object yang berisi state dan method mutate
+ * @returns {import('vue').Ref<any>} returns.data - Data response mutation terakhir
+ * @returns {import('vue').Ref<Error|null>} returns.error - Error mutation terakhir
+ * @returns {import('vue').Ref<boolean>} returns.loading - True selama mutation berjalan
+ * @returns {Function} returns.mutate - Jalankan mutation, resolve dengan data (null jika gagal)
+ * @returns {Function} returns.reset - Reset data dan error ke kondisi awal
+ *
+ * @example
+ * // Tambah todo dengan optimistic update (baseURL global ikut menjadi bagian key)
+ * const todosKey = createQueryKey('/api/todos', { baseURL: API_BASE_URL })
+ * const { mutate, loading } = useMutation('/api/todos', {}, {
+ *   onMutate: async (todo) => {
+ *     const previous = await getQueryData(todosKey)
+ *     await setQueryData(todosKey, (todos = []) => [...todos, todo])
+ *     return { previous }
+ *   },
+ *   onError: (error, todo, context) => setQueryData(todosKey, context.previous),
+ *   invalidate: ['/api/todos']
+ * });
+ *
+ * await mutate({ title: 'Belajar Vue' });
+ *
+ * @example
+ * // Delete dengan URL dinamis
+ * const { mutate } = useMutation((id) => `/api/todos/${id}`, { method: 'DELETE', body: () => undefined });
+ * await mutate(1);
+ */
+export function useMutation(url, options = {}, {
+  onMutate,
+  onSuccess,
+  onError,
+  onSettled,
+  invalidate,
+  storage
+} = {}) {
+  const data = ref(null);
+  const error = ref(null);
+  const loading = ref(false);
+
+  // Id mutation terakhir, agar response lama tidak menimpa state mutation yang lebih baru
+  let latestCall = 0
+
+  const mutate = async (variables) => {
+    const callId = ++latestCall
+    const isLatest = () => callId === latestCall
+
+    loading.value = true
+    error.value = null
+
+    let context
+    let result = null
+    let failure = null
+
+    try {
+      context = await onMutate?.(variables)
+
+      const { body, ...fetchOptions } = options
+      result = await ofetch(resolveUrl(url, variables), {
+        method: 'POST',
+        ...fetchOptions,
+        body: typeof body === 'function' ? body(variables) : (body ?? variables)
+      })
+
+      if (isLatest()) data.value = result
+    } catch (err) {
+      failure = err
+      result = null
+      if (isLatest()) error.value = err
+    }
+
+    try {
+      if (failure) {
+        await onError?.(failure, variables, context)
+      } else {
+        // Try terpisah dari request: perubahan sudah tersimpan di server, error di onSuccess
+        // atau invalidation tidak boleh men-set `error` atau memicu rollback lewat onError
+        try {
+          await onSuccess?.(result, variables, context)
+
+          if (invalidate) {
+            const filters = Array.isArray(invalidate) ? invalidate : [invalidate]
+            await Promise.all(filters.map((filter) => invalidateQueries(filter, { storage })))
+          }
+        } catch (err) {
+          console.error("Error in onSuccess/invalidate after mutation:", err)
+        }
+      }
+    } finally {
+      await onSettled?.(result, failure, variables, context)
+
+      if (isLatest()) loading.value = false
+    }
+
+    return result
+  }
+
+  const reset = () => {
+    data.value = null
+    error.value = null
+  }
+
+  return {
+    data,
+    error,
+    loading,
+    mutate,
+    reset
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { FetchManager } from '../src/core/FetchManager.js';
+import { createMemoryTokenStore } from '../src/core/tokenStore.js';
+
+// Test dengan ofetch asli (tidak di-mock), hanya global fetch yang diganti
+describe('FetchManager with ofetch', () => {
+  const json = (body: object, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the retried response after refreshing on 401', async () => {
+    const tokenStore = createMemoryTokenStore();
+    tokenStore.set('accessToken', 'expired-token');
+    tokenStore.set('refreshToken', 'refresh-token');
+
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockImplementation(async (input: any, init: any = {}) => {
+      const url = String(input?.url ?? input);
+      if (url.endsWith('/api/refresh-token')) return json({ accessToken: 'new-token' });
+      const authorization = new Headers(init.headers).get('authorization');
+      return authorization === 'Bearer new-token'
+        ? json({ id: 1 })
+        : json({ message: 'Unauthorized' }, 401);
+    });
+
+    const manager = new FetchManager('https://api.example.com', {
+      tokenStore,
+      proactiveRefresh: false,
+      crossTabSync: false
+    });
+
+    await expect(manager.fetch('/users/1')).resolves.toEqual({ id: 1 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(tokenStore.get('accessToken')).toBe('new-token');
+    manager.destroy();
+  });
+});
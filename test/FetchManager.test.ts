@@ -0,0 +1,641 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { FetchManager, decodeTokenExpiration } from '../src/core/FetchManager.js';
+import { createMemoryTokenStore } from '../src/core/tokenStore.js';
+import { ofetch } from 'ofetch';
+
+// Mock ofetch: setiap create() menghasilkan instance fetch mock baru
+jest.mock('ofetch', () => ({
+  ofetch: {
+    create: jest.fn(() => jest.fn())
+  }
+}));
+
+// Buat JWT (tanpa signature valid) dengan claim exp dalam epoch detik
+const createJwt = (exp: number) => {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: '1', exp })}.signature`;
+};
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+describe('FetchManager', () => {
+  let managers: FetchManager[] = [];
+
+  // Buat FetchManager dengan token di memory dan catat untuk destroy setelah test
+  const createManager = (options: any = {}) => {
+    const tokens: Record<string, string | null> = {
+      accessToken: options.accessToken ?? null,
+      refreshToken: 'refresh-token'
+    };
+    const saveToken = jest.fn(async (token: string) => {
+      tokens.accessToken = token;
+    });
+    const manager = new FetchManager('https://api.example.com', {
+      getToken: async () => tokens.accessToken,
+      saveToken,
+      getRefreshToken: async () => tokens.refreshToken,
+      getRefreshTokenExpiration: async () => null,
+      ...options
+    });
+    managers.push(manager);
+    return { manager, saveToken, tokens, fetchRaw: manager.$fetchRaw as unknown as jest.Mock<(...args: any[]) => any> };
+  };
+
+  const setVisibility = (state: 'visible' | 'hidden') => {
+    Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    // Jam di tengah detik: claim exp JWT dibulatkan ke detik, jadwal refresh tidak bergantung waktu asli
+    jest.useFakeTimers({ now: 1700000000500 });
+    localStorage.clear();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    managers.forEach((manager) => manager.destroy());
+    managers = [];
+    setVisibility('visible');
+    jest.useRealTimers();
+  });
+
+  describe('decodeTokenExpiration', () => {
+    it('should read the exp claim from a JWT', () => {
+      expect(decodeTokenExpiration(createJwt(1700000000))).toBe(1700000000);
+    });
+
+    it('should return null for non-JWT tokens', () => {
+      expect(decodeTokenExpiration('opaque-token')).toBeNull();
+      expect(decodeTokenExpiration('a.not-base64!.c')).toBeNull();
+      expect(decodeTokenExpiration(null)).toBeNull();
+      expect(decodeTokenExpiration(`x.${btoa('{"sub":"1"}')}.y`)).toBeNull();
+    });
+  });
+
+  describe('proactive refresh', () => {
+    const createProactiveManager = (options: any = {}) => createManager({ proactiveRefresh: true, ...options });
+
+    // Dua instance di atas token store yang sama, seperti useFetchServer di dua komponen
+    const createSharedStoreManagers = (accessToken: string) => {
+      const tokenStore = createMemoryTokenStore();
+      tokenStore.set('accessToken', accessToken);
+      tokenStore.set('refreshToken', 'r1');
+      const create = () => {
+        const manager = new FetchManager('https://api.example.com', { tokenStore, proactiveRefresh: true, crossTabSync: false });
+        managers.push(manager);
+        return { manager, fetchRaw: manager.$fetchRaw as unknown as jest.Mock<(...args: any[]) => any> };
+      };
+      return { tokenStore, first: create(), second: create() };
+    };
+
+    it('should be disabled by default', async () => {
+      const { manager } = createManager({ accessToken: createJwt(nowInSeconds() + 120) });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(manager.proactiveRefresh).toBe(false);
+      expect(manager.refreshTimer).toBeNull();
+    });
+    it('should refresh the access token before it expires', async () => {
+      const newToken = createJwt(nowInSeconds() + 3600);
+      const { manager, saveToken, fetchRaw } = createProactiveManager({ accessToken: createJwt(nowInSeconds() + 120) });
+      fetchRaw.mockResolvedValue({ accessToken: newToken });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(manager.refreshTimer).not.toBeNull();
+      await jest.advanceTimersByTimeAsync(59 * 1000);
+      expect(fetchRaw).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(fetchRaw).toHaveBeenCalledWith('/api/refresh-token', {
+        method: 'POST',
+        body: { refreshToken: 'refresh-token' }
+      });
+      expect(saveToken).toHaveBeenCalledWith(newToken);
+      // Dijadwalkan ulang dari token baru
+      expect(manager.refreshTimer).not.toBeNull();
+    });
+
+    it('should honour refreshBeforeExpiry and a custom expiration getter', async () => {
+      const expiresAt = nowInSeconds() + 600;
+      const { fetchRaw } = createProactiveManager({
+        accessToken: 'opaque-token',
+        getAccessTokenExpiration: async () => expiresAt,
+        refreshBeforeExpiry: 300
+      });
+      fetchRaw.mockResolvedValue({ accessToken: 'next-token' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      await jest.advanceTimersByTimeAsync(299 * 1000);
+      expect(fetchRaw).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not schedule without an expiration or refresh token', async () => {
+      const opaque = createProactiveManager({ accessToken: 'opaque-token' });
+      const noRefresh = createProactiveManager({
+        accessToken: createJwt(nowInSeconds() + 120),
+        getRefreshToken: async () => null
+      });
+      const disabled = createProactiveManager({
+        accessToken: createJwt(nowInSeconds() + 120),
+        proactiveRefresh: false
+      });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(opaque.manager.refreshTimer).toBeNull();
+      expect(noRefresh.manager.refreshTimer).toBeNull();
+      expect(disabled.manager.refreshTimer).toBeNull();
+    });
+
+    it('should refresh at half the remaining lifetime for short-lived tokens', async () => {
+      const { fetchRaw } = createProactiveManager({ accessToken: createJwt(nowInSeconds() + 30) });
+      fetchRaw.mockResolvedValue({ accessToken: 'opaque-token' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      await jest.advanceTimersByTimeAsync(14 * 1000);
+      expect(fetchRaw).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pause while the tab is hidden and resume when visible', async () => {
+      const { manager, fetchRaw } = createProactiveManager({ accessToken: createJwt(nowInSeconds() + 120) });
+      fetchRaw.mockResolvedValue({ accessToken: 'opaque-token' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      setVisibility('hidden');
+      expect(manager.refreshTimer).toBeNull();
+
+      await jest.advanceTimersByTimeAsync(90 * 1000);
+      expect(fetchRaw).not.toHaveBeenCalled();
+
+      // Sudah lewat batas refresh, langsung refresh saat tab terlihat lagi
+      setVisibility('visible');
+      await jest.advanceTimersByTimeAsync(100);
+      expect(fetchRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call onRefreshFailCallback when the scheduled refresh fails', async () => {
+      const onRefreshFailCallback = jest.fn();
+      const { fetchRaw } = createProactiveManager({
+        accessToken: createJwt(nowInSeconds() + 120),
+        onRefreshFailCallback
+      });
+      fetchRaw.mockRejectedValue(new Error('Refresh failed'));
+      await jest.advanceTimersByTimeAsync(61 * 1000);
+
+      expect(onRefreshFailCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call onRefreshFailCallback when the scheduled refresh hits a network error', async () => {
+      const onRefreshFailCallback = jest.fn();
+      const { fetchRaw } = createProactiveManager({
+        accessToken: createJwt(nowInSeconds() + 120),
+        onRefreshFailCallback
+      });
+      const networkError = Object.assign(new Error('fetch failed'), { name: 'FetchError' });
+      fetchRaw.mockRejectedValueOnce(networkError);
+      await jest.advanceTimersByTimeAsync(61 * 1000);
+
+      expect(fetchRaw).toHaveBeenCalledTimes(1);
+      expect(onRefreshFailCallback).not.toHaveBeenCalled();
+    });
+
+    it('should cap timer delays for tokens that expire far in the future', async () => {
+      const { manager, fetchRaw } = createProactiveManager({ accessToken: createJwt(nowInSeconds() + 30 * 24 * 60 * 60) });
+      fetchRaw.mockResolvedValue({ accessToken: 'opaque-token' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Timer pertama berjalan setelah 2^31 - 1 ms, hanya menjadwalkan ulang
+      await jest.advanceTimersByTimeAsync(2147483647);
+      expect(fetchRaw).not.toHaveBeenCalled();
+      expect(manager.refreshTimer).not.toBeNull();
+
+      await jest.advanceTimersByTimeAsync(6 * 24 * 60 * 60 * 1000);
+      expect(fetchRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop the scheduler on destroy', async () => {
+      const { manager, fetchRaw } = createProactiveManager({ accessToken: createJwt(nowInSeconds() + 120) });
+      await jest.advanceTimersByTimeAsync(0);
+
+      manager.destroy();
+      await jest.advanceTimersByTimeAsync(120 * 1000);
+
+      expect(manager.refreshTimer).toBeNull();
+      expect(fetchRaw).not.toHaveBeenCalled();
+    });
+  
+    it('should share one scheduler and one refresh between instances with the same token store', async () => {
+      const { tokenStore, first, second } = createSharedStoreManagers(createJwt(nowInSeconds() + 120));
+      // Refresh lambat: instance kedua tidak boleh mengirim refresh token yang sama
+      const refresh = () => new Promise((resolve) => setTimeout(() => resolve({ accessToken: 'new-token', refreshToken: 'r2' }), 500));
+      first.fetchRaw.mockImplementation(refresh);
+      second.fetchRaw.mockImplementation(refresh);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(first.manager.refreshTimer).not.toBeNull();
+      expect(second.manager.refreshTimer).toBeNull();
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      const joined = second.manager.queuedRefreshToken();
+      await jest.advanceTimersByTimeAsync(500);
+
+      await expect(joined).resolves.toBe('new-token');
+      expect(first.fetchRaw.mock.calls.length + second.fetchRaw.mock.calls.length).toBe(1);
+      expect(tokenStore.get('refreshToken')).toBe('r2');
+    });
+
+    it('should hand the scheduler over to another instance on destroy', async () => {
+      const { first, second } = createSharedStoreManagers(createJwt(nowInSeconds() + 120));
+      second.fetchRaw.mockResolvedValue({ accessToken: 'new-token' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      first.manager.destroy();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(second.manager.refreshTimer).not.toBeNull();
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(first.fetchRaw).not.toHaveBeenCalled();
+      expect(second.fetchRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refresh request and response', () => {
+    it('should persist a rotated refresh token and expiration from the default mapping', async () => {
+      const saveRefreshToken = jest.fn();
+      const saveRefreshTokenExpiration = jest.fn();
+      const { manager, saveToken, fetchRaw } = createManager({
+        proactiveRefresh: false,
+        crossTabSync: false,
+        saveRefreshToken,
+        saveRefreshTokenExpiration
+      });
+      fetchRaw.mockResolvedValue({ access_token: 'new-token', refresh_token: 'new-refresh', refresh_token_expiration: 1900000000 });
+
+      await expect(manager.queuedRefreshToken()).resolves.toBe('new-token');
+
+      expect(saveToken).toHaveBeenCalledWith('new-token');
+      expect(saveRefreshToken).toHaveBeenCalledWith('new-refresh');
+      expect(saveRefreshTokenExpiration).toHaveBeenCalledWith(1900000000);
+    });
+
+    it('should save rotated tokens to localStorage by default', async () => {
+      const { manager, fetchRaw } = createManager({ proactiveRefresh: false, crossTabSync: false });
+      fetchRaw.mockResolvedValue({ accessToken: 'new-token', refreshToken: 'new-refresh', refreshTokenExpiration: 1900000000 });
+
+      await manager.queuedRefreshToken();
+
+      expect(localStorage.getItem('refreshToken')).toBe('new-refresh');
+      expect(localStorage.getItem('refreshTokenExpiration')).toBe('1900000000');
+      localStorage.clear();
+    });
+
+    it('should use custom method, headers, body builder and response parser', async () => {
+      const saveRefreshToken = jest.fn();
+      const { manager, fetchRaw } = createManager({
+        proactiveRefresh: false,
+        crossTabSync: false,
+        saveRefreshToken,
+        refreshMethod: 'PUT',
+        refreshHeaders: (refreshToken: string) => ({ Authorization: `Bearer ${refreshToken}` }),
+        buildRefreshBody: () => undefined,
+        parseRefreshResponse: (response: any) => ({ accessToken: response.data.jwt, refreshToken: response.data.refresh })
+      });
+      fetchRaw.mockResolvedValue({ data: { jwt: 'new-token', refresh: 'new-refresh' } });
+
+      await expect(manager.queuedRefreshToken()).resolves.toBe('new-token');
+
+      expect(fetchRaw).toHaveBeenCalledWith('/api/refresh-token', {
+        method: 'PUT',
+        headers: { Authorization: 'Bearer refresh-token' }
+      });
+      expect(saveRefreshToken).toHaveBeenCalledWith('new-refresh');
+    });
+
+    it('should send cookies without reading a refresh token in cookie mode', async () => {
+      const getRefreshToken = jest.fn(async () => null);
+      const { manager, fetchRaw } = createManager({
+        proactiveRefresh: false,
+        crossTabSync: false,
+        refreshTokenInCookie: true,
+        getRefreshToken
+      });
+      fetchRaw.mockResolvedValue({ accessToken: 'new-token' });
+
+      await expect(manager.hasRefreshToken()).resolves.toBe(true);
+      await expect(manager.queuedRefreshToken()).resolves.toBe('new-token');
+
+      expect(getRefreshToken).not.toHaveBeenCalled();
+      expect(fetchRaw).toHaveBeenCalledWith('/api/refresh-token', { method: 'POST', credentials: 'include' });
+    });
+
+    it('should reject when the response has no access token', async () => {
+      const { manager, saveToken, fetchRaw } = createManager({ proactiveRefresh: false, crossTabSync: false });
+      fetchRaw.mockResolvedValue({ message: 'ok' });
+
+      await expect(manager.refreshToken()).rejects.toThrow('Refresh response does not contain an access token');
+      expect(saveToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token store', () => {
+    it('should read and save tokens through the configured store', async () => {
+      const tokenStore = createMemoryTokenStore({ prefix: 'admin:' });
+      tokenStore.set('accessToken', 'old-token');
+      tokenStore.set('refreshToken', 'old-refresh');
+      const manager = new FetchManager('https://api.example.com', {
+        tokenStore,
+        proactiveRefresh: false,
+        crossTabSync: false
+      });
+      managers.push(manager);
+      (manager.$fetchRaw as unknown as jest.Mock<(...args: any[]) => any>)
+        .mockResolvedValue({ accessToken: 'new-token', refreshToken: 'new-refresh' });
+
+      await expect(manager.getTokenFn()).resolves.toBe('old-token');
+      await manager.queuedRefreshToken();
+
+      expect(tokenStore.get('accessToken')).toBe('new-token');
+      expect(tokenStore.get('refreshToken')).toBe('new-refresh');
+    });
+
+    it('should resolve built-in stores by name with tokenPrefix', async () => {
+      sessionStorage.setItem('app:accessToken', 'session-token');
+      const manager = new FetchManager('https://api.example.com', {
+        tokenStore: 'sessionStorage',
+        tokenPrefix: 'app:',
+        proactiveRefresh: false
+      });
+      managers.push(manager);
+
+      await expect(manager.getTokenFn()).resolves.toBe('session-token');
+
+      manager.clearTokens();
+      expect(sessionStorage.getItem('app:accessToken')).toBeNull();
+    });
+
+    it('should prefer a custom clearTokens and cancel the scheduled refresh', async () => {
+      const clearTokens = jest.fn();
+      const { manager } = createManager({ accessToken: createJwt(nowInSeconds() + 120), clearTokens, proactiveRefresh: true });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(manager.refreshTimer).not.toBeNull();
+
+      manager.clearTokens();
+
+      expect(clearTokens).toHaveBeenCalledTimes(1);
+      expect(manager.refreshTimer).toBeNull();
+    });
+  });
+
+  describe('interceptors', () => {
+    // Ambil opsi yang diberikan ke ofetch.create untuk instance $fetch milik manager
+    const getFetchConfig = (manager: FetchManager): any => {
+      const create = ofetch.create as unknown as jest.Mock;
+      const index = create.mock.results.findIndex((result) => result.value === manager.$fetch);
+      return create.mock.calls[index][0];
+    };
+
+    // Jalankan array hook ofetch berurutan seperti callHooks
+    const callHooks = async (hooks: any, context: any) => {
+      for (const hook of Array.isArray(hooks) ? hooks : [hooks]) await hook(context);
+    };
+
+    const createContext = (options: any = {}) => ({
+      request: 'https://api.example.com/users',
+      options: { headers: new Headers(), ...options },
+      response: undefined as any
+    });
+
+    it('should run interceptors in order after the built-in auth header', async () => {
+      const { manager } = createManager({ accessToken: 'token', proactiveRefresh: false });
+      const calls: string[] = [];
+
+      manager.use({
+        onRequest: ({ options }: any) => {
+          calls.push(`first:${new Headers(options.headers).get('authorization')}`);
+          options.headers.set('X-Trace', 'trace-id');
+        }
+      });
+      manager.use({ onRequest: () => { calls.push('second'); } });
+
+      const context = createContext();
+      await callHooks(getFetchConfig(manager).onRequest, context);
+
+      expect(calls).toEqual(['first:Bearer token', 'second']);
+      expect(context.options.headers.get('X-Trace')).toBe('trace-id');
+      expect(context.options.headers.get('Authorization')).toBe('Bearer token');
+    });
+
+    it('should remove interceptors with the returned eject function', async () => {
+      const { manager } = createManager({ proactiveRefresh: false });
+      const onResponse = jest.fn<(context: any) => void>();
+      const eject = manager.use({ onResponse });
+
+      eject();
+      eject();
+      await callHooks(getFetchConfig(manager).onResponse, createContext());
+
+      expect(onResponse).not.toHaveBeenCalled();
+      expect(manager.interceptors).toHaveLength(0);
+    });
+
+    it('should compose hooks from options with the built-in auth and refresh logic', async () => {
+      const onRequest = jest.fn();
+      const onResponseError = jest.fn();
+      const { manager } = createManager({
+        accessToken: 'token',
+        proactiveRefresh: false,
+        getRefreshToken: async () => null,
+        onRequest,
+        onResponseError
+      });
+      const config = getFetchConfig(manager);
+
+      const context = createContext();
+      await callHooks(config.onRequest, context);
+      expect(context.options.headers.get('Authorization')).toBe('Bearer token');
+      expect(onRequest).toHaveBeenCalledWith(context);
+
+      const errorContext = { ...createContext(), response: { status: 401 } };
+      await callHooks(config.onResponseError, errorContext);
+      expect(onResponseError).toHaveBeenCalledWith(errorContext);
+
+      // Hook tidak diteruskan sebagai opsi ofetch yang menimpa hook bawaan
+      expect(manager.interceptors).toHaveLength(1);
+      const rawConfig = (ofetch.create as unknown as jest.Mock).mock.calls
+        .find((call: any[]) => call[0] !== config)?.[0] as any;
+      expect(rawConfig.onRequest).toBeUndefined();
+    });
+
+    it('should run per-call hooks after the global interceptors', async () => {
+      const { manager } = createManager({ proactiveRefresh: false });
+      const $fetch = manager.$fetch as unknown as jest.Mock<(...args: any[]) => any>;
+      $fetch.mockResolvedValue({ id: 1 });
+      const calls: string[] = [];
+      manager.use({ onResponse: () => { calls.push('global'); } });
+
+      await manager.fetch('/users', { method: 'GET', onResponse: () => { calls.push('call'); } });
+
+      const [, options] = $fetch.mock.calls[0] as [string, any];
+      expect(options.onResponse).toBeUndefined();
+      await callHooks(getFetchConfig(manager).onResponse, createContext(options));
+      expect(calls).toEqual(['global', 'call']);
+    });
+  });
+
+  describe('refresh on 401', () => {
+    const unauthorized = () => Object.assign(new Error('Unauthorized'), { status: 401 });
+
+    it('should refresh and retry the request with the new token', async () => {
+      const { manager, fetchRaw } = createManager({ accessToken: 'expired-token', proactiveRefresh: false, crossTabSync: false });
+      const $fetch = manager.$fetch as unknown as jest.Mock<(...args: any[]) => any>;
+      $fetch.mockRejectedValueOnce(unauthorized()).mockResolvedValueOnce({ id: 1 });
+      fetchRaw.mockResolvedValue({ accessToken: 'new-token' });
+
+      await expect(manager.fetch('/users', { headers: { 'X-Trace': '1' } })).resolves.toEqual({ id: 1 });
+
+      const [, retryOptions] = $fetch.mock.calls[1] as [string, any];
+      expect(retryOptions.headers.get('Authorization')).toBe('Bearer new-token');
+      expect(retryOptions.headers.get('X-Trace')).toBe('1');
+    });
+
+    it('should rethrow the original error for skipped urls, other statuses and missing refresh tokens', async () => {
+      const { manager, fetchRaw } = createManager({ proactiveRefresh: false, crossTabSync: false, skipRefreshUrls: ['/auth/login'] });
+      const $fetch = manager.$fetch as unknown as jest.Mock<(...args: any[]) => any>;
+      const error = unauthorized();
+      const serverError = Object.assign(new Error('Server Error'), { status: 500 });
+      $fetch.mockRejectedValueOnce(error).mockRejectedValueOnce(serverError);
+
+      await expect(manager.fetch('/auth/login')).rejects.toBe(error);
+      await expect(manager.fetch('/users')).rejects.toBe(serverError);
+
+      const noRefresh = createManager({ proactiveRefresh: false, getRefreshToken: async () => null });
+      (noRefresh.manager.$fetch as unknown as jest.Mock<(...args: any[]) => any>).mockRejectedValueOnce(error);
+      await expect(noRefresh.manager.fetch('/users')).rejects.toBe(error);
+
+      expect(fetchRaw).not.toHaveBeenCalled();
+      expect(noRefresh.fetchRaw).not.toHaveBeenCalled();
+    });
+
+    it('should call onRefreshFailCallback when the refresh fails', async () => {
+      const onRefreshFailCallback = jest.fn();
+      const { manager, fetchRaw } = createManager({ proactiveRefresh: false, crossTabSync: false, onRefreshFailCallback });
+      (manager.$fetch as unknown as jest.Mock<(...args: any[]) => any>).mockRejectedValueOnce(unauthorized());
+      fetchRaw.mockRejectedValue(new Error('Refresh failed'));
+
+      await expect(manager.fetch('/users')).rejects.toThrow('Refresh failed');
+      expect(onRefreshFailCallback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cross-tab refresh', () => {
+    // BroadcastChannel sederhana: pesan dikirim sinkron ke semua channel lain
+    const mockBroadcastChannel = () => {
+      const channels: any[] = [];
+      (globalThis as any).BroadcastChannel = class {
+        onmessage: ((event: { data: any }) => void) | null = null;
+        constructor() {
+          channels.push(this);
+        }
+        postMessage(data: any) {
+          channels.filter((channel) => channel !== this).forEach((channel) => channel.onmessage?.({ data }));
+        }
+        close() {}
+      };
+    };
+
+    afterEach(() => {
+      delete (globalThis as any).BroadcastChannel;
+    });
+
+    it('should let only one tab refresh and reuse the token in the other', async () => {
+      // Dua tab dengan storage token yang sama (localStorage)
+      const shared: Record<string, string | null> = { accessToken: 'expired-token' };
+      const sharedTokens = {
+        getToken: async () => shared.accessToken,
+        saveToken: async (token: string) => {
+          shared.accessToken = token;
+        },
+        proactiveRefresh: false
+      };
+      const tabA = createManager(sharedTokens);
+      const tabB = createManager(sharedTokens);
+      tabA.fetchRaw.mockResolvedValue({ accessToken: 'token-from-a' });
+      tabB.fetchRaw.mockResolvedValue({ accessToken: 'token-from-b' });
+
+      const results = Promise.all([tabA.manager.queuedRefreshToken(), tabB.manager.queuedRefreshToken()]);
+      await jest.advanceTimersByTimeAsync(1000);
+      const [tokenA, tokenB] = await results;
+
+      expect(tabA.fetchRaw.mock.calls.length + tabB.fetchRaw.mock.calls.length).toBe(1);
+      expect(tokenA).toBe(tokenB);
+      expect(shared.accessToken).toBe(tokenA);
+    });
+
+    it('should reuse the result of the lock holder when tabs use separate token stores', async () => {
+      // Store per tab (misalnya sessionStorage) dan refresh token yang di-rotate
+      mockBroadcastChannel();
+      const onRefreshFailCallback = jest.fn();
+      const tabA = createManager({ accessToken: 'expired-token', proactiveRefresh: false, onRefreshFailCallback });
+      const tabB = createManager({ accessToken: 'expired-token', proactiveRefresh: false, onRefreshFailCallback });
+      tabB.manager.saveRefreshTokenFn = async (token: string) => {
+        tabB.tokens.refreshToken = token;
+      };
+      tabA.fetchRaw.mockResolvedValue({ accessToken: 'token-from-a', refreshToken: 'rotated-refresh' });
+      tabB.fetchRaw.mockRejectedValue(new Error('Refresh token already used'));
+
+      const first = tabA.manager.queuedRefreshToken();
+      await jest.advanceTimersByTimeAsync(0);
+      const second = tabB.manager.queuedRefreshToken();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['token-from-a', 'token-from-a']);
+      expect(tabA.fetchRaw).toHaveBeenCalledTimes(1);
+      expect(tabB.fetchRaw).not.toHaveBeenCalled();
+      expect(tabB.saveToken).toHaveBeenCalledWith('token-from-a');
+      expect(tabB.tokens.refreshToken).toBe('rotated-refresh');
+      expect(onRefreshFailCallback).not.toHaveBeenCalled();
+      // Hanya penanda hasil refresh yang disimpan di localStorage, bukan token
+      expect(localStorage.getItem('vue3-utils:auth:result')).not.toContain('token-from-a');
+      expect(localStorage.getItem('vue3-utils:auth:result')).not.toContain('rotated-refresh');
+
+      // Logout menghapus hasil refresh yang dibagikan
+      await tabA.manager.clearTokens();
+      expect(localStorage.getItem('vue3-utils:auth:result')).toBeNull();
+    });
+
+    it('should save tokens refreshed by another tab', async () => {
+      mockBroadcastChannel();
+      const saveRefreshToken = jest.fn();
+      const tabA = createManager({ accessToken: 'expired-token', proactiveRefresh: false, saveRefreshToken: jest.fn() });
+      const tabB = createManager({ accessToken: 'expired-token', proactiveRefresh: false, saveRefreshToken });
+      tabA.fetchRaw.mockResolvedValue({ accessToken: 'new-token', refreshToken: 'new-refresh' });
+
+      const result = tabA.manager.queuedRefreshToken();
+      await jest.advanceTimersByTimeAsync(100);
+      await result;
+
+      expect(tabA.saveToken).toHaveBeenCalledWith('new-token');
+      expect(tabB.saveToken).toHaveBeenCalledWith('new-token');
+      expect(saveRefreshToken).toHaveBeenCalledWith('new-refresh');
+      expect(tabB.fetchRaw).not.toHaveBeenCalled();
+    });
+
+    it('should refresh without coordination when crossTabSync is disabled', async () => {
+      const { manager, saveToken, fetchRaw } = createManager({ crossTabSync: false, proactiveRefresh: false });
+      fetchRaw.mockResolvedValue({ accessToken: 'new-token' });
+
+      await expect(manager.queuedRefreshToken()).resolves.toBe('new-token');
+
+      expect(manager.tabSync).toBeNull();
+      expect(saveToken).toHaveBeenCalledWith('new-token');
+    });
+  });
+});
@@ -0,0 +1,419 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  createMemoryStorage,
+  createWebStorage,
+  createIndexedDBStorage,
+  resolveCacheStorage,
+  setDefaultCacheStorage,
+  setCacheLimits,
+  getCacheStats,
+} from '../src/core/cacheStorage.js';
+
+// Minimal in-memory Storage implementation
+class MockStorage {
+  items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  key(i: number) {
+    return [...this.items.keys()][i] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+// Minimal fake IndexedDB supporting the operations used by the adapter
+const createFakeIndexedDB = () => {
+  const data = new Map<string, any>();
+  const store = {
+    get: (key: string) => ({ result: data.get(key) }),
+    put: (value: any, key: string) => {
+      data.set(key, value);
+      return { result: key };
+    },
+    delete: (key: string) => {
+      data.delete(key);
+      return { result: undefined };
+    },
+    getAllKeys: () => ({ result: [...data.keys()] }),
+    getAll: () => ({ result: [...data.values()] }),
+    clear: () => {
+      data.clear();
+      return { result: undefined };
+    },
+  };
+  const db = {
+    createObjectStore: jest.fn(),
+    transaction: () => {
+      const tx: any = { objectStore: () => store };
+      queueMicrotask(() => tx.oncomplete?.());
+      return tx;
+    },
+  };
+  return {
+    data,
+    open: jest.fn((_name: string, _version: number) => {
+      const request: any = { result: db };
+      queueMicrotask(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    }),
+  };
+};
+
+const entry = (data: any, ttl = 10000) => ({
+  data,
+  timestamp: Date.now(),
+  expiresAt: Date.now() + ttl,
+});
+
+describe('cacheStorage', () => {
+  let warnSpy: any;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('createMemoryStorage', () => {
+    it('should store and retrieve entries', () => {
+      const storage = createMemoryStorage();
+      const value = entry({ id: 1 });
+
+      storage.set('GET:/a', value);
+
+      expect(storage.get('GET:/a')).toBe(value);
+      expect(storage.keys()).toEqual(['GET:/a']);
+    });
+
+    it('should evict oldest entry when maxEntries is reached', () => {
+      const storage = createMemoryStorage({ maxEntries: 2 });
+
+      storage.set('a', entry(1));
+      storage.set('b', entry(2));
+      storage.set('c', entry(3));
+
+      expect(storage.get('a')).toBeUndefined();
+      expect(storage.keys()).toEqual(['b', 'c']);
+    });
+
+    it('should evict least recently used entry instead of oldest inserted', () => {
+      const storage = createMemoryStorage({ maxEntries: 2 });
+
+      storage.set('a', entry(1));
+      storage.set('b', entry(2));
+      storage.get('a');
+      storage.set('c', entry(3));
+
+      expect(storage.get('b')).toBeUndefined();
+      expect(storage.keys()).toEqual(['a', 'c']);
+    });
+
+    it('should evict entries to stay within maxSize budget', () => {
+      // '"xxxx"' = 6 chars = 12 bytes per entry
+      const storage = createMemoryStorage({ maxSize: 30 });
+
+      storage.set('a', entry('xxxx'));
+      storage.set('b', entry('xxxx'));
+      storage.set('c', entry('xxxx'));
+
+      expect(storage.keys()).toEqual(['b', 'c']);
+      expect(storage.stats()).toEqual(expect.objectContaining({ size: 2, bytes: 24, evictions: 1 }));
+    });
+
+    it('should not store entries larger than the whole budget', () => {
+      const storage = createMemoryStorage({ maxSize: 10 });
+
+      storage.set('big', entry('way too large'));
+
+      expect(storage.get('big')).toBeUndefined();
+      expect(storage.stats().evictions).toBe(1);
+    });
+
+    it('should track hits and misses', () => {
+      const storage = createMemoryStorage();
+      storage.set('a', entry(1));
+
+      storage.get('a');
+      storage.get('a');
+      storage.get('missing');
+
+      expect(storage.stats()).toEqual({ hits: 2, misses: 1, evictions: 0, size: 1, bytes: 2 });
+    });
+
+    it('should apply new limits immediately', () => {
+      const storage = createMemoryStorage();
+      storage.set('a', entry(1));
+      storage.set('b', entry(2));
+      storage.set('c', entry(3));
+
+      storage.setLimits({ maxEntries: 1 });
+
+      expect(storage.keys()).toEqual(['c']);
+      expect(storage.stats().evictions).toBe(2);
+    });
+
+    it('should remove entries after expiresAt', () => {
+      jest.useFakeTimers();
+      const storage = createMemoryStorage();
+
+      storage.set('a', entry(1, 1000));
+      jest.advanceTimersByTime(1000);
+
+      expect(storage.get('a')).toBeUndefined();
+      expect(storage.keys()).toEqual([]);
+    });
+
+    it('should delete and clear entries', () => {
+      const storage = createMemoryStorage();
+      storage.set('a', entry(1));
+      storage.set('b', entry(2));
+
+      storage.delete('a');
+      expect(storage.keys()).toEqual(['b']);
+
+      storage.clear();
+      expect(storage.keys()).toEqual([]);
+    });
+  });
+
+  describe('createWebStorage', () => {
+    let backend: MockStorage;
+
+    beforeEach(() => {
+      backend = new MockStorage();
+    });
+
+    it('should serialize entries with TTL metadata under prefix', () => {
+      const storage = createWebStorage(backend as any, { prefix: 'test:' });
+      const value = entry({ id: 1 });
+
+      storage.set('GET:/a', value);
+
+      expect(JSON.parse(backend.getItem('test:GET:/a')!)).toEqual(value);
+      expect(storage.get('GET:/a')).toEqual(value);
+    });
+
+    it('should drop expired entries on read', () => {
+      const storage = createWebStorage(backend as any);
+      backend.setItem('vue3-utils:fetch:old', JSON.stringify({ data: 1, timestamp: 0, expiresAt: 1 }));
+
+      expect(storage.get('old')).toBeUndefined();
+      expect(backend.getItem('vue3-utils:fetch:old')).toBeNull();
+    });
+
+    it('should drop corrupted entries on read', () => {
+      const storage = createWebStorage(backend as any);
+      backend.setItem('vue3-utils:fetch:bad', '{not json');
+
+      expect(storage.get('bad')).toBeUndefined();
+      expect(backend.getItem('vue3-utils:fetch:bad')).toBeNull();
+    });
+
+    it('should fall back to memory on quota errors', () => {
+      backend.setItem = () => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      };
+      const storage = createWebStorage(backend as any);
+      const value = entry({ big: true });
+
+      storage.set('GET:/big', value);
+
+      expect(storage.get('GET:/big')).toBe(value);
+      expect(storage.keys()).toEqual(['GET:/big']);
+      expect(warnSpy).toHaveBeenCalled();
+    });
+
+    it('should remove expired entries and evict the oldest when adding a key beyond maxEntries', () => {
+      jest.useFakeTimers({ now: 1000 });
+      const storage = createWebStorage(backend as any, { maxEntries: 2 });
+      backend.setItem('vue3-utils:fetch:expired', JSON.stringify({ data: 0, timestamp: 0, expiresAt: 1 }));
+      storage.set('a', entry(1));
+      jest.setSystemTime(2000);
+      storage.set('b', entry(2));
+
+      // Update key yang sudah ada tidak memicu eviction
+      storage.set('a', { ...entry(3), timestamp: 500 });
+      expect((storage.keys() as string[]).sort()).toEqual(['a', 'b']);
+
+      jest.setSystemTime(3000);
+      storage.set('c', entry(4));
+
+      expect(backend.getItem('vue3-utils:fetch:expired')).toBeNull();
+      expect((storage.keys() as string[]).sort()).toEqual(['b', 'c']);
+    });
+
+    it('should remove expired entries and retry on quota errors', () => {
+      const storage = createWebStorage(backend as any, { maxEntries: Infinity });
+      backend.setItem('vue3-utils:fetch:expired', JSON.stringify({ data: 0, timestamp: 0, expiresAt: 1 }));
+      const setItem = backend.setItem.bind(backend);
+      backend.setItem = (key: string, value: string) => {
+        if (backend.items.has('vue3-utils:fetch:expired')) {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        }
+        setItem(key, value);
+      };
+      const value = entry({ id: 1 });
+
+      storage.set('GET:/a', value);
+
+      expect(JSON.parse(backend.getItem('vue3-utils:fetch:GET:/a')!)).toEqual(value);
+      expect(backend.getItem('vue3-utils:fetch:expired')).toBeNull();
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to memory when storage is unavailable', () => {
+      const storage = createWebStorage(() => undefined);
+      const value = entry(1);
+
+      storage.set('a', value);
+
+      expect(storage.get('a')).toBe(value);
+    });
+
+    it('should list, delete and clear only prefixed keys', () => {
+      backend.setItem('other', 'x');
+      const storage = createWebStorage(backend as any);
+
+      storage.set('a', entry(1));
+      storage.set('b', entry(2));
+      expect(storage.keys()).toEqual(['a', 'b']);
+
+      storage.delete('a');
+      expect(storage.keys()).toEqual(['b']);
+
+      storage.clear();
+      expect(storage.keys()).toEqual([]);
+      expect(backend.getItem('other')).toBe('x');
+    });
+  });
+
+  describe('createIndexedDBStorage', () => {
+    afterEach(() => {
+      // @ts-ignore
+      delete globalThis.indexedDB;
+    });
+
+    it('should persist entries in IndexedDB', async () => {
+      const fakeDB = createFakeIndexedDB();
+      (globalThis as any).indexedDB = fakeDB;
+      const storage = createIndexedDBStorage({ dbName: 'test-db' });
+      const value = entry({ id: 1 });
+
+      await storage.set('GET:/a', value);
+
+      expect(fakeDB.open).toHaveBeenCalledWith('test-db', 1);
+      expect(fakeDB.data.get('GET:/a')).toBe(value);
+      expect(await storage.get('GET:/a')).toBe(value);
+      expect(await storage.keys()).toEqual(['GET:/a']);
+
+      await storage.delete('GET:/a');
+      expect(await storage.get('GET:/a')).toBeUndefined();
+    });
+
+    it('should drop expired entries on read', async () => {
+      const fakeDB = createFakeIndexedDB();
+      (globalThis as any).indexedDB = fakeDB;
+      const storage = createIndexedDBStorage();
+      fakeDB.data.set('old', { data: 1, timestamp: 0, expiresAt: 1 });
+
+      expect(await storage.get('old')).toBeUndefined();
+      expect(fakeDB.data.has('old')).toBe(false);
+    });
+
+    it('should remove expired entries and evict the oldest when adding a key beyond maxEntries', async () => {
+      const fakeDB = createFakeIndexedDB();
+      (globalThis as any).indexedDB = fakeDB;
+      const storage = createIndexedDBStorage({ maxEntries: 2 });
+      fakeDB.data.set('expired', { data: 0, timestamp: 0, expiresAt: 1 });
+      fakeDB.data.set('old', { data: 1, timestamp: 1, expiresAt: Date.now() + 10000 });
+
+      await storage.set('a', entry(2));
+      await storage.set('b', entry(3));
+
+      expect([...fakeDB.data.keys()].sort()).toEqual(['a', 'b']);
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should clear all entries', async () => {
+      const fakeDB = createFakeIndexedDB();
+      (globalThis as any).indexedDB = fakeDB;
+      const storage = createIndexedDBStorage();
+
+      await storage.set('a', entry(1));
+      await storage.clear();
+
+      expect(fakeDB.data.size).toBe(0);
+    });
+
+    it('should fall back to memory when IndexedDB is unavailable', async () => {
+      const storage = createIndexedDBStorage();
+      const value = entry(1);
+
+      await storage.set('a', value);
+
+      expect(await storage.get('a')).toBe(value);
+      expect(await storage.keys()).toEqual(['a']);
+      expect(warnSpy).toHaveBeenCalled();
+
+      await storage.delete('a');
+      await storage.clear();
+      expect(await storage.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('resolveCacheStorage', () => {
+    afterEach(() => {
+      setDefaultCacheStorage('memory');
+    });
+
+    it('should return shared instances for builtin names', () => {
+      expect(resolveCacheStorage('localStorage')).toBe(resolveCacheStorage('localStorage'));
+      expect(resolveCacheStorage('memory')).not.toBe(resolveCacheStorage('sessionStorage'));
+      expect(resolveCacheStorage('indexedDB')).toBeDefined();
+    });
+
+    it('should return custom adapters as-is', () => {
+      const custom = createMemoryStorage();
+      expect(resolveCacheStorage(custom)).toBe(custom);
+    });
+
+    it('should throw for unknown storage names', () => {
+      expect(() => resolveCacheStorage('unknown' as any)).toThrow('tidak dikenal');
+    });
+
+    it('should configure limits and read stats of the shared memory storage', () => {
+      const shared = resolveCacheStorage('memory');
+      shared.clear();
+      shared.set('a', entry(1));
+      shared.set('b', entry(2));
+
+      setCacheLimits({ maxEntries: 1 });
+
+      expect(getCacheStats()).toEqual(expect.objectContaining({ size: 1 }));
+      setCacheLimits({ maxEntries: 100 });
+    });
+
+    it('should return null stats for storages without stats support', () => {
+      expect(getCacheStats('localStorage')).toBeNull();
+    });
+
+    it('should use the global default storage', () => {
+      setDefaultCacheStorage('sessionStorage');
+      expect(resolveCacheStorage()).toBe(resolveCacheStorage('sessionStorage'));
+    });
+  });
+});
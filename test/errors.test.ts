@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { FetchError, ValidationError, normalizeFetchError } from '../src/core/errors.js';
+
+describe('normalizeFetchError', () => {
+  it('should return FetchError instances as is and fill the url', () => {
+    const error = new FetchError('Gagal', { kind: 'http', status: 500 });
+
+    expect(normalizeFetchError(error, { url: '/api/a' })).toBe(error);
+    expect(error.url).toBe('/api/a');
+  });
+
+  it('should classify timeouts', () => {
+    const abort = new DOMException('The operation was aborted.', 'AbortError');
+    const error = normalizeFetchError(abort, { url: '/api/a', timedOut: true, timeout: 500 });
+
+    expect(error.kind).toBe('timeout');
+    expect(error.message).toContain('500ms');
+    expect(error.cause).toBe(abort);
+    expect(normalizeFetchError(new DOMException('Timeout', 'TimeoutError')).kind).toBe('timeout');
+  });
+
+  it('should classify aborts', () => {
+    const error = normalizeFetchError(new DOMException('The operation was aborted.', 'AbortError'));
+
+    expect(error.kind).toBe('abort');
+  });
+
+  it('should classify HTTP errors from the response', () => {
+    const response = { status: 503, _data: { retry: true } };
+    const error = normalizeFetchError(Object.assign(new Error('Service Unavailable'), { response }));
+
+    expect(error).toMatchObject({ kind: 'http', status: 503, data: { retry: true }, response });
+  });
+
+  it('should classify parse and network errors', () => {
+    expect(normalizeFetchError(new SyntaxError('Unexpected token')).kind).toBe('parse');
+    expect(normalizeFetchError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(normalizeFetchError(Object.assign(new Error('<no response> fetch failed'), { name: 'FetchError' })).kind)
+      .toBe('network');
+  });
+
+  it('should not classify errors outside the transport as network', () => {
+    expect(normalizeFetchError(new Error('transform failed')).kind).toBe('parse');
+    expect(normalizeFetchError('invalid')).toMatchObject({ kind: 'parse', message: 'invalid' });
+  });
+});
+
+describe('ValidationError', () => {
+  it('should be a FetchError with kind parse', () => {
+    const cause = new Error('Expected number');
+    const error = new ValidationError('Expected number', { data: { id: 'x' }, url: '/api/user', cause });
+
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toMatchObject({ name: 'ValidationError', kind: 'parse', data: { id: 'x' }, url: '/api/user', cause });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createOfflineQueue, getDefaultOfflineQueue, isOffline } from '../src/core/offlineQueue.js';
+import { createMemoryStorage } from '../src/core/cacheStorage.js';
+
+// Mock ofetch
+jest.mock('ofetch', () => ({
+  ofetch: jest.fn()
+}));
+
+import { ofetch } from 'ofetch';
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, data: { status } });
+
+describe('offlineQueue', () => {
+  let queues: any[] = [];
+
+  // Buat antrean memory dan catat untuk dispose setelah test
+  const createQueue = (options: any = {}) => {
+    const queue = createOfflineQueue({ storage: 'memory', ...options });
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(() => {
+    (ofetch as any).mockReset();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    queues.forEach((queue) => queue.dispose());
+    queues = [];
+    jest.restoreAllMocks();
+  });
+
+  it('should store requests and update pendingCount', async () => {
+    const queue = createQueue();
+    await queue.ready;
+
+    await queue.enqueue('/api/orders', {
+      method: 'POST',
+      body: { id: 1 },
+      headers: { 'X-Token': 'abc' },
+      signal: new AbortController().signal,
+      onRequest: () => {}
+    });
+    await queue.enqueue('/api/orders/1', { method: 'DELETE' });
+
+    expect(queue.pendingCount.value).toBe(2);
+    const pending = await queue.getPending();
+    expect(pending.map((request) => request.url)).toEqual(['/api/orders', '/api/orders/1']);
+    expect(pending[0].options).toMatchObject({ method: 'POST', body: { id: 1 } });
+    expect(Object.keys(pending[0].options).sort()).toEqual(['body', 'headers', 'method']);
+    expect(new Headers(pending[0].options.headers).get('x-token')).toBe('abc');
+  });
+
+  it('should reject bodies that cannot be stored and serialize URLSearchParams', async () => {
+    const queue = createQueue();
+    const formData = new FormData();
+    formData.append('file', new Blob(['data']), 'file.txt');
+
+    await expect(queue.enqueue('/api/upload', { method: 'POST', body: formData }))
+      .rejects.toThrow('[offlineQueue] Body FormData tidak bisa disimpan ke antrean');
+    await expect(queue.enqueue('/api/upload', { method: 'POST', body: new Blob(['data']) }))
+      .rejects.toThrow('tidak bisa disimpan');
+    expect(queue.pendingCount.value).toBe(0);
+
+    const request = await queue.enqueue('/api/form', { method: 'POST', body: new URLSearchParams({ a: '1' }) });
+    expect(request.options).toEqual({
+      method: 'POST',
+      body: 'a=1',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' }
+    });
+  });
+
+  it('should replay requests in order and remove them', async () => {
+    const onSuccess = jest.fn();
+    (ofetch as any).mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce({ id: 2 });
+    const queue = createQueue({ onSuccess });
+    await queue.enqueue('/api/first', { method: 'POST', body: { n: 1 } });
+    await queue.enqueue('/api/second', { method: 'PUT', body: { n: 2 } });
+
+    await queue.replay();
+
+    expect((ofetch as any).mock.calls).toEqual([
+      ['/api/first', { method: 'POST', body: { n: 1 } }],
+      ['/api/second', { method: 'PUT', body: { n: 2 } }]
+    ]);
+    expect(onSuccess).toHaveBeenCalledWith({ id: 2 }, expect.objectContaining({ url: '/api/second' }));
+    expect(queue.pendingCount.value).toBe(0);
+    expect(queue.isReplaying.value).toBe(false);
+  });
+
+  it('should pass interceptors from enqueue and from the queue to replayed requests', async () => {
+    (ofetch as any).mockResolvedValue({ ok: true });
+    const queueOnRequest = jest.fn();
+    const queueOnResponse = jest.fn();
+    const enqueueOnRequest = jest.fn();
+    const queue = createQueue({ onRequest: queueOnRequest, onResponse: queueOnResponse });
+    await queue.enqueue('/api/first', { method: 'POST', onRequest: enqueueOnRequest });
+    await queue.enqueue('/api/second', { method: 'POST' });
+
+    await queue.replay();
+
+    const [[, first], [, second]] = (ofetch as any).mock.calls;
+    expect(first).toEqual({ method: 'POST', onRequest: enqueueOnRequest, onResponse: queueOnResponse });
+    expect(second).toEqual({ method: 'POST', onRequest: queueOnRequest, onResponse: queueOnResponse });
+  });
+
+  it('should stop at network errors and 5xx, keeping the rest', async () => {
+    (ofetch as any)
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue({});
+    const queue = createQueue();
+    await queue.enqueue('/api/a', { method: 'POST' });
+    await queue.enqueue('/api/b', { method: 'POST' });
+
+    await queue.replay();
+    expect(ofetch).toHaveBeenCalledTimes(1);
+    expect(queue.pendingCount.value).toBe(2);
+
+    await queue.replay();
+    expect(queue.pendingCount.value).toBe(2);
+
+    await queue.replay();
+    expect(queue.pendingCount.value).toBe(0);
+  });
+
+  it('should call onConflict and keep the request when it returns retry', async () => {
+    const onConflict = jest.fn<(error: any, request: any) => any>()
+      .mockReturnValueOnce('retry')
+      .mockReturnValueOnce(undefined);
+    (ofetch as any).mockRejectedValue(httpError(409));
+    const queue = createQueue({ onConflict });
+    await queue.enqueue('/api/doc/1', { method: 'PATCH', body: { title: 'Baru' } });
+
+    await queue.replay();
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'http', status: 409, data: { status: 409 } }),
+      expect.objectContaining({ url: '/api/doc/1' })
+    );
+    expect(queue.pendingCount.value).toBe(1);
+
+    await queue.replay();
+    expect(queue.pendingCount.value).toBe(0);
+  });
+
+  it('should not report a sent request as failed when onSuccess throws', async () => {
+    const onError = jest.fn();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (ofetch as any).mockResolvedValue({ ok: true });
+    const queue = createQueue({
+      onSuccess: () => {
+        throw new Error('onSuccess failed');
+      },
+      onError
+    });
+    await queue.enqueue('/api/first', { method: 'POST' });
+    await queue.enqueue('/api/second', { method: 'POST' });
+
+    await queue.replay();
+
+    expect(ofetch).toHaveBeenCalledTimes(2);
+    expect(onError).not.toHaveBeenCalled();
+    expect(queue.pendingCount.value).toBe(0);
+    expect(consoleError).toHaveBeenCalledWith('Error in onSuccess callback:', expect.any(Error));
+  });
+
+  it('should drop requests with non-retryable errors and report them', async () => {
+    const onError = jest.fn();
+    (ofetch as any).mockRejectedValueOnce(httpError(422)).mockResolvedValueOnce({ ok: true });
+    const queue = createQueue({ onError });
+    await queue.enqueue('/api/invalid', { method: 'POST' });
+    await queue.enqueue('/api/valid', { method: 'POST' });
+
+    await queue.replay();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 422 }), expect.objectContaining({ url: '/api/invalid' }));
+    expect(ofetch).toHaveBeenCalledTimes(2);
+    expect(queue.pendingCount.value).toBe(0);
+  });
+
+  it('should not replay while offline and replay on the online event', async () => {
+    const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    (ofetch as any).mockResolvedValue({});
+    const queue = createQueue();
+    await queue.enqueue('/api/offline', { method: 'POST' });
+
+    expect(isOffline()).toBe(true);
+    await queue.replay();
+    expect(ofetch).not.toHaveBeenCalled();
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    await queue.replay();
+
+    expect(ofetch).toHaveBeenCalledTimes(1);
+    expect(queue.pendingCount.value).toBe(0);
+  });
+
+  it('should persist in localStorage and replay leftovers on creation', async () => {
+    const storage = createMemoryStorage({ maxEntries: Infinity });
+    const first = createQueue({ storage, autoReplay: false });
+    await first.enqueue('/api/leftover', { method: 'POST', body: { n: 1 } });
+
+    (ofetch as any).mockResolvedValue({});
+    const second = createQueue({ storage });
+    await second.ready;
+
+    expect(ofetch).toHaveBeenCalledWith('/api/leftover', { method: 'POST', body: { n: 1 } });
+    expect(second.pendingCount.value).toBe(0);
+
+    const persisted = createQueue({ storage: 'localStorage', autoReplay: false });
+    await persisted.enqueue('/api/saved', { method: 'POST' });
+    expect(Object.keys(localStorage).some((key) => key.startsWith('vue3-utils:queue:'))).toBe(true);
+
+    await persisted.clear();
+    expect(persisted.pendingCount.value).toBe(0);
+    expect(await persisted.getPending()).toEqual([]);
+  });
+
+  it('should throw for unknown storage names and share the default queue', () => {
+    expect(() => createOfflineQueue({ storage: 'nope' as any })).toThrow('tidak dikenal');
+    const queue = getDefaultOfflineQueue();
+    queues.push(queue);
+    expect(getDefaultOfflineQueue()).toBe(queue);
+  });
+});
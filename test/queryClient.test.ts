@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  registerQuery,
+  invalidateQueries,
+  createQueryKey,
+  getQueryData,
+  setQueryData,
+} from '../src/core/queryClient.js';
+import { createMemoryStorage } from '../src/core/cacheStorage.js';
+
+describe('queryClient', () => {
+  const entry = (url: string, tags?: string[]) => ({
+    data: { url },
+    timestamp: Date.now(),
+    url,
+    ...(tags && { tags }),
+  });
+
+  let storage: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    storage.set('GET:/api/users', entry('/api/users', ['users']));
+    storage.set('GET:/api/users/1', entry('/api/users/1', ['users', 'user:1']));
+    storage.set('GET:/api/posts', entry('/api/posts', ['posts']));
+  });
+
+  describe('createQueryKey', () => {
+    it('should keep METHOD:url format without query, body or headers', () => {
+      expect(createQueryKey('/api/users')).toBe('GET:/api/users');
+      expect(createQueryKey('/api/users', { method: 'post' })).toBe('POST:/api/users');
+    });
+
+    it('should include the resolved baseURL', () => {
+      expect(createQueryKey('/api/users', { baseURL: 'https://a.example.com/' })).toBe('GET:https://a.example.com/api/users');
+      expect(createQueryKey('api/users', { baseURL: 'https://b.example.com' })).toBe('GET:https://b.example.com/api/users');
+      expect(createQueryKey('https://c.example.com/api/users', { baseURL: 'https://a.example.com' }))
+        .toBe('GET:https://c.example.com/api/users');
+      expect(createQueryKey('/api/users', { baseURL: '/' })).toBe('GET:/api/users');
+    });
+
+    it('should be independent of object key order', () => {
+      const a = createQueryKey('/api/search', { query: { page: 1, sort: 'name' }, body: { a: 1, b: { c: 2, d: 3 } } });
+      const b = createQueryKey('/api/search', { query: { sort: 'name', page: 1 }, body: { b: { d: 3, c: 2 }, a: 1 } });
+
+      expect(a).toBe(b);
+      expect(a.startsWith('GET:/api/search#')).toBe(true);
+    });
+
+    it('should differ for different query or body', () => {
+      const base = createQueryKey('/api/search', { method: 'POST', body: { q: 'vue' } });
+
+      expect(createQueryKey('/api/search', { method: 'POST', body: { q: 'react' } })).not.toBe(base);
+      expect(createQueryKey('/api/search', { method: 'POST', body: { q: 'vue' }, query: { page: 2 } })).not.toBe(base);
+    });
+
+    it('should treat params as alias of query', () => {
+      expect(createQueryKey('/api/a', { params: { page: 1 } })).toBe(createQueryKey('/api/a', { query: { page: 1 } }));
+    });
+
+    it('should ignore undefined values', () => {
+      expect(createQueryKey('/api/a', { query: { page: 1, filter: undefined } }))
+        .toBe(createQueryKey('/api/a', { query: { page: 1 } }));
+    });
+
+    it('should only include selected vary-headers, case-insensitively', () => {
+      const en = createQueryKey('/api/a', { headers: { 'Accept-Language': 'en', 'X-Trace': '1' } }, { varyHeaders: ['accept-language'] });
+      const enOtherTrace = createQueryKey('/api/a', { headers: [['accept-language', 'en'], ['x-trace', '2']] }, { varyHeaders: ['Accept-Language'] });
+      const id = createQueryKey('/api/a', { headers: new Headers({ 'Accept-Language': 'id' }) }, { varyHeaders: ['accept-language'] });
+
+      expect(en).toBe(enOtherTrace);
+      expect(en).not.toBe(id);
+      expect(createQueryKey('/api/a', { headers: { 'X-Trace': '1' } })).toBe('GET:/api/a');
+      expect(createQueryKey('/api/a', { headers: { 'X-Trace': '1' } }, { varyHeaders: ['accept-language'] })).toBe('GET:/api/a');
+    });
+
+    it('should serialize URLSearchParams, FormData, Blob and Date bodies', () => {
+      const params = (value: string) => createQueryKey('/api/a', { method: 'POST', body: new URLSearchParams({ q: value, page: '1' }) });
+      expect(params('vue')).toBe(createQueryKey('/api/a', { method: 'POST', body: new URLSearchParams({ page: '1', q: 'vue' }) }));
+      expect(params('vue')).not.toBe(params('react'));
+
+      const form = new FormData();
+      form.append('name', 'file');
+      const otherForm = new FormData();
+      otherForm.append('name', 'other');
+      expect(createQueryKey('/api/a', { method: 'POST', body: form }))
+        .not.toBe(createQueryKey('/api/a', { method: 'POST', body: otherForm }));
+
+      const blobKey = createQueryKey('/api/a', { method: 'POST', body: new Blob(['abc'], { type: 'text/plain' }) });
+      expect(blobKey).not.toBe(createQueryKey('/api/a', { method: 'POST', body: new Blob(['abcd'], { type: 'text/plain' }) }));
+
+      expect(createQueryKey('/api/a', { query: { since: new Date(0) } }))
+        .toBe(createQueryKey('/api/a', { query: { since: new Date(0).toISOString() } }));
+    });
+  });
+
+  describe('invalidateQueries', () => {
+    it('should delete entries matching url prefix', async () => {
+      await invalidateQueries('/api/users', { storage });
+
+      expect(storage.keys()).toEqual(['GET:/api/posts']);
+    });
+
+    it('should delete entries matching cache key prefix', async () => {
+      await invalidateQueries('GET:/api/posts', { storage });
+
+      expect(storage.keys()).toEqual(['GET:/api/users', 'GET:/api/users/1']);
+    });
+
+    it('should delete entries matching tags', async () => {
+      await invalidateQueries({ tags: ['user:1', 'posts'] }, { storage });
+
+      expect(storage.keys()).toEqual(['GET:/api/users']);
+    });
+
+    it('should delete entries matching exact key', async () => {
+      await invalidateQueries({ key: 'GET:/api/users' }, { storage });
+
+      expect(storage.keys()).toEqual(['GET:/api/users/1', 'GET:/api/posts']);
+    });
+
+    it('should delete entries matching predicate', async () => {
+      const predicate = jest.fn((key: string, _meta: unknown) => key.endsWith('/1'));
+
+      await invalidateQueries(predicate, { storage });
+
+      expect(storage.keys()).toEqual(['GET:/api/users', 'GET:/api/posts']);
+      expect(predicate).toHaveBeenCalledWith(
+        'GET:/api/users/1',
+        expect.objectContaining({ url: '/api/users/1', tags: ['users', 'user:1'] })
+      );
+    });
+
+    it('should ignore unknown filter shapes', async () => {
+      await invalidateQueries({} as any, { storage });
+
+      expect(storage.keys()).toHaveLength(3);
+    });
+
+    it('should not touch LRU order or stats while scanning', async () => {
+      await invalidateQueries('/api/none', { storage });
+
+      expect(storage.stats().hits).toBe(0);
+      expect(storage.keys()).toEqual(['GET:/api/users', 'GET:/api/users/1', 'GET:/api/posts']);
+    });
+
+    it('should scan storages without peek support', async () => {
+      const { peek, ...adapter } = storage as any;
+
+      await invalidateQueries('/api/posts', { storage: adapter });
+
+      expect(storage.keys()).toEqual(['GET:/api/users', 'GET:/api/users/1']);
+    });
+
+    it('should invalidate matching observers only', async () => {
+      const usersObserver = {
+        getMeta: () => ({ key: 'GET:/api/users', url: '/api/users', tags: ['users'] }),
+        invalidate: jest.fn(async () => {}),
+      };
+      const postsObserver = {
+        getMeta: () => ({ key: 'GET:/api/posts', url: '/api/posts', tags: ['posts'] }),
+        invalidate: jest.fn(async () => {}),
+      };
+      const unregisterUsers = registerQuery(usersObserver);
+      const unregisterPosts = registerQuery(postsObserver);
+
+      await invalidateQueries({ tags: ['users'] }, { storage });
+
+      expect(usersObserver.invalidate).toHaveBeenCalledTimes(1);
+      expect(postsObserver.invalidate).not.toHaveBeenCalled();
+
+      unregisterUsers();
+      await invalidateQueries('/api/users', { storage });
+      expect(usersObserver.invalidate).toHaveBeenCalledTimes(1);
+
+      unregisterPosts();
+    });
+  });
+
+  describe('getQueryData / setQueryData', () => {
+    it('should read cached data', async () => {
+      expect(await getQueryData('GET:/api/users', { storage })).toEqual({ url: '/api/users' });
+      expect(await getQueryData('GET:/missing', { storage })).toBeUndefined();
+    });
+
+    it('should fall back to data of mounted observers without cache', async () => {
+      const unregister = registerQuery({
+        getMeta: () => ({ key: 'GET:/api/live' }),
+        invalidate: async () => {},
+        getData: () => ['live'],
+      });
+
+      expect(await getQueryData('GET:/api/live', { storage })).toEqual(['live']);
+      unregister();
+    });
+
+    it('should update cache entry and keep its metadata', async () => {
+      const before = storage.peek('GET:/api/users')!;
+
+      const result = await setQueryData('GET:/api/users', (old: any) => ({ ...old, updated: true }), { storage });
+
+      expect(result).toEqual({ url: '/api/users', updated: true });
+      expect(storage.peek('GET:/api/users')).toEqual({ ...before, data: result });
+    });
+
+    it('should not create cache entries for unknown keys', async () => {
+      await setQueryData('GET:/api/new', [1], { storage });
+
+      expect(storage.keys()).not.toContain('GET:/api/new');
+    });
+
+    it('should push new data to observers with the same key', async () => {
+      const setData = jest.fn();
+      const other = jest.fn();
+      const unregisterA = registerQuery({ getMeta: () => ({ key: 'GET:/api/users' }), invalidate: async () => {}, setData });
+      const unregisterB = registerQuery({ getMeta: () => ({ key: 'GET:/api/posts' }), invalidate: async () => {}, setData: other });
+
+      await setQueryData('GET:/api/users', ['optimistic'], { storage });
+
+      expect(setData).toHaveBeenCalledWith(['optimistic']);
+      expect(other).not.toHaveBeenCalled();
+      unregisterA();
+      unregisterB();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createSSRApp, defineComponent, h } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import { useFetch } from '../src/wrapper/useFetch.js';
+import { resolveCacheStorage } from '../src/core/cacheStorage.js';
+import {
+  isServer,
+  getFetchPayload,
+  serializeFetchPayload,
+  recordFetchPayload,
+} from '../src/core/ssrPayload.js';
+
+// Mock ofetch
+jest.mock('ofetch', () => ({
+  ofetch: jest.fn()
+}));
+
+import { ofetch } from 'ofetch';
+
+describe('ssrPayload (server)', () => {
+  beforeEach(() => {
+    (ofetch as any).mockReset();
+  });
+
+  afterEach(async () => {
+    // Hapus entry `ssrCache` beserta timer expire-nya
+    await resolveCacheStorage().clear();
+  });
+
+  const renderApp = async (setup: () => any) => {
+    const app = createSSRApp(defineComponent({ setup }));
+    const ctx: Record<string, any> = {};
+    const html = await renderToString(app, ctx);
+    return { html, ctx };
+  };
+
+  it('should detect the server environment', () => {
+    expect(isServer()).toBe(true);
+  });
+
+  it('should await useFetch during onServerPrefetch and render its data', async () => {
+    (ofetch as any).mockResolvedValueOnce({ name: 'Server User' });
+
+    const { html, ctx } = await renderApp(() => {
+      const { data } = useFetch('/api/ssr-user');
+      return () => h('p', data.value?.name ?? 'loading');
+    });
+
+    expect(html).toBe('<p>Server User</p>');
+    expect(ofetch).toHaveBeenCalledTimes(1);
+    expect(getFetchPayload(ctx)).toEqual({
+      'GET:/api/ssr-user': { data: { name: 'Server User' }, timestamp: expect.any(Number) },
+    });
+  });
+
+  it('should support await useFetch in async setup', async () => {
+    (ofetch as any).mockResolvedValueOnce({ name: 'Async' });
+
+    const { html, ctx } = await renderApp(async () => {
+      const { data } = await useFetch('/api/ssr-async');
+      return () => h('p', data.value.name);
+    });
+
+    expect(html).toBe('<p>Async</p>');
+    expect(ofetch).toHaveBeenCalledTimes(1);
+    expect(Object.keys(getFetchPayload(ctx))).toEqual(['GET:/api/ssr-async']);
+  });
+
+  it('should not record failed requests', async () => {
+    (ofetch as any).mockRejectedValueOnce(new Error('Server down'));
+
+    const { html, ctx } = await renderApp(() => {
+      const { error } = useFetch('/api/ssr-error');
+      return () => h('p', error.value ? 'error' : 'ok');
+    });
+
+    expect(html).toBe('<p>error</p>');
+    expect(getFetchPayload(ctx)).toEqual({});
+  });
+
+  it('should skip requests when immediate is false', async () => {
+    const { ctx } = await renderApp(() => {
+      useFetch('/api/ssr-manual', {}, { immediate: false });
+      return () => h('p');
+    });
+
+    expect(ofetch).not.toHaveBeenCalled();
+    expect(getFetchPayload(ctx)).toEqual({});
+  });
+
+  it('should not share requests between concurrent renders', async () => {
+    (ofetch as any).mockResolvedValueOnce({ user: 'a' }).mockResolvedValueOnce({ user: 'b' });
+    const setup = () => {
+      const { data } = useFetch('/api/ssr-me');
+      return () => h('p', data.value?.user);
+    };
+
+    const [a, b] = await Promise.all([renderApp(setup), renderApp(setup)]);
+
+    expect(ofetch).toHaveBeenCalledTimes(2);
+    expect(a.html).toBe('<p>a</p>');
+    expect(b.html).toBe('<p>b</p>');
+  });
+
+  it('should not share cached responses between users on the server', async () => {
+    (ofetch as any).mockResolvedValueOnce({ user: 'a' }).mockResolvedValueOnce({ user: 'b' });
+    const setup = () => {
+      const { data } = useFetch('/api/ssr-cached-me', {}, { cacheTime: 60000 });
+      return () => h('p', data.value?.user);
+    };
+
+    const a = await renderApp(setup);
+    const b = await renderApp(setup);
+
+    expect(ofetch).toHaveBeenCalledTimes(2);
+    expect(a.html).toBe('<p>a</p>');
+    expect(b.html).toBe('<p>b</p>');
+  });
+
+  it('should use the cache on the server when ssrCache is enabled', async () => {
+    (ofetch as any).mockResolvedValueOnce({ country: 'ID' });
+    const setup = () => {
+      const { data } = useFetch('/api/ssr-countries', {}, { cacheTime: 60000, ssrCache: true });
+      return () => h('p', data.value?.country);
+    };
+
+    await renderApp(setup);
+    const { html } = await renderApp(setup);
+
+    expect(ofetch).toHaveBeenCalledTimes(1);
+    expect(html).toBe('<p>ID</p>');
+  });
+
+  it('should fetch directly when called outside a component', async () => {
+    (ofetch as any).mockResolvedValueOnce({ ok: true });
+
+    const { data } = useFetch('/api/ssr-plain');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(ofetch).toHaveBeenCalledTimes(1);
+    expect(data.value).toEqual({ ok: true });
+  });
+
+  it('should serialize payload safely for script tags', () => {
+    const ctx = {};
+    recordFetchPayload(ctx, 'GET:/api/html', '</script><script>alert(1)</script>&\u2028');
+    recordFetchPayload(undefined, 'GET:/ignored', 1);
+
+    const serialized = serializeFetchPayload(ctx);
+
+    expect(serialized).not.toContain('</script>');
+    expect(serialized).not.toContain('\u2028');
+    expect(JSON.parse(serialized)).toEqual(getFetchPayload(ctx));
+    expect(serializeFetchPayload({})).toBe('{}');
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createTabSync } from '../src/core/tabSync.js';
+
+// BroadcastChannel sederhana: pesan dikirim sinkron ke channel lain dengan nama yang sama
+class MockBroadcastChannel {
+  static channels: MockBroadcastChannel[] = [];
+  onmessage: ((event: { data: any }) => void) | null = null;
+
+  constructor(public name: string) {
+    MockBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data }));
+  }
+
+  close() {
+    MockBroadcastChannel.channels = MockBroadcastChannel.channels.filter((channel) => channel !== this);
+  }
+}
+
+describe('createTabSync', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('messages', () => {
+    beforeEach(() => {
+      (globalThis as any).BroadcastChannel = MockBroadcastChannel;
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).BroadcastChannel;
+      MockBroadcastChannel.channels = [];
+    });
+
+    it('should deliver messages to other tabs via BroadcastChannel', () => {
+      const onMessageA = jest.fn();
+      const onMessageB = jest.fn();
+      const tabA = createTabSync({ onMessage: onMessageA });
+      const tabB = createTabSync({ onMessage: onMessageB });
+
+      tabA.broadcast({ type: 'refreshed', token: 'new-token' });
+
+      expect(onMessageB).toHaveBeenCalledWith(expect.objectContaining({ type: 'refreshed', token: 'new-token' }));
+      expect(onMessageA).not.toHaveBeenCalled();
+
+      tabB.close();
+      tabA.broadcast({ type: 'refreshed', token: 'next-token' });
+      expect(onMessageB).toHaveBeenCalledTimes(1);
+      tabA.close();
+    });
+
+    it('should isolate channels by name', () => {
+      const onMessage = jest.fn();
+      const tabA = createTabSync({ name: 'app-a' });
+      const tabB = createTabSync({ name: 'app-b', onMessage });
+
+      tabA.broadcast({ type: 'refreshed', token: 'new-token' });
+
+      expect(onMessage).not.toHaveBeenCalled();
+      tabA.close();
+      tabB.close();
+    });
+  });
+
+  describe('storage event fallback', () => {
+    it('should receive messages from storage events of other tabs', () => {
+      const onMessage = jest.fn();
+      const sync = createTabSync({ onMessage });
+
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: 'vue3-utils:auth:message',
+        newValue: JSON.stringify({ type: 'refreshed', token: 'new-token', source: 'other-tab' })
+      }));
+      // Event lain, value yang dihapus dan value rusak diabaikan
+      window.dispatchEvent(new StorageEvent('storage', { key: 'accessToken', newValue: 'x' }));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'vue3-utils:auth:message', newValue: null }));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'vue3-utils:auth:message', newValue: '{' }));
+
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ token: 'new-token' }));
+
+      sync.close();
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: 'vue3-utils:auth:message',
+        newValue: JSON.stringify({ type: 'refreshed', token: 'next-token', source: 'other-tab' })
+      }));
+      expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should broadcast by writing then removing the message key', () => {
+      const setItem = jest.spyOn(Storage.prototype, 'setItem');
+      const sync = createTabSync();
+
+      sync.broadcast({ type: 'refreshed', token: 'new-token' });
+
+      expect(setItem).toHaveBeenCalledWith('vue3-utils:auth:message', expect.stringContaining('new-token'));
+      expect(localStorage.getItem('vue3-utils:auth:message')).toBeNull();
+      sync.close();
+    });
+  });
+
+  describe('shared result', () => {
+    beforeEach(() => {
+      (globalThis as any).BroadcastChannel = MockBroadcastChannel;
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).BroadcastChannel;
+      MockBroadcastChannel.channels = [];
+    });
+
+    it('should share the latest refresh result with other tabs since a given time', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      const onMessage = jest.fn();
+      const tabA = createTabSync();
+      const tabB = createTabSync({ onMessage });
+
+      tabA.shareResult({ type: 'refreshed', token: 'new-token' });
+
+      await expect(tabB.getSharedResult(1000)).resolves.toMatchObject({ type: 'refreshed', token: 'new-token', sharedAt: 1000 });
+      await expect(tabB.getSharedResult(1001)).resolves.toBeNull();
+      expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ token: 'new-token' }));
+
+      tabB.clearSharedResult();
+      await expect(tabA.getSharedResult(0)).resolves.toBeNull();
+      tabA.close();
+      tabB.close();
+    });
+
+    it('should store only a marker without tokens in localStorage', () => {
+      jest.useFakeTimers({ now: 1000 });
+      const sync = createTabSync();
+
+      sync.shareResult({ type: 'refreshed', token: 'new-token', refreshToken: 'new-refresh' });
+
+      const stored = JSON.parse(localStorage.getItem('vue3-utils:auth:result') as string);
+      expect(stored).toEqual({ source: expect.any(String), sharedAt: 1000 });
+      sync.close();
+    });
+
+    it('should wait briefly for the message of a marker that is already stored', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      const sync = createTabSync();
+      localStorage.setItem('vue3-utils:auth:result', JSON.stringify({ source: 'other-tab', sharedAt: 1000 }));
+
+      const late = sync.getSharedResult(1000);
+      new MockBroadcastChannel('vue3-utils:auth').postMessage({
+        type: 'refreshed', token: 'late-token', source: 'other-tab', sharedAt: 1000
+      });
+      await expect(late).resolves.toMatchObject({ token: 'late-token' });
+
+      // Pesan tidak pernah sampai: menyerah setelah timeout
+      localStorage.setItem('vue3-utils:auth:result', JSON.stringify({ source: 'closed-tab', sharedAt: 1000 }));
+      const missing = sync.getSharedResult(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(missing).resolves.toBeNull();
+      sync.close();
+    });
+  });
+
+  describe('withLock', () => {
+    it('should use the Web Locks API when available', async () => {
+      const request = jest.fn((_name: string, callback: () => any) => Promise.resolve(callback()));
+      jest.spyOn(navigator, 'locks', 'get').mockReturnValue({ request } as any);
+      const sync = createTabSync({ name: 'app' });
+
+      await expect(sync.withLock(async () => 'result')).resolves.toBe('result');
+
+      expect(request).toHaveBeenCalledWith('app:lock', expect.any(Function));
+      sync.close();
+    });
+
+    it('should run callbacks one at a time with the storage lease fallback', async () => {
+      jest.useFakeTimers();
+      const tabA = createTabSync();
+      const tabB = createTabSync();
+      const events: string[] = [];
+
+      const task = (name: string) => async () => {
+        events.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        events.push(`${name}:end`);
+        return name;
+      };
+
+      const resultA = tabA.withLock(task('a'));
+      const resultB = tabB.withLock(task('b'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(Promise.all([resultA, resultB])).resolves.toEqual(['a', 'b']);
+      expect(events).toHaveLength(4);
+      expect(events[1]).toBe(events[0].replace('start', 'end'));
+      expect(localStorage.getItem('vue3-utils:auth:lock')).toBeNull();
+      tabA.close();
+      tabB.close();
+    });
+
+    it('should release the lease when the callback throws', async () => {
+      jest.useFakeTimers();
+      const sync = createTabSync();
+
+      const result = sync.withLock(async () => {
+        throw new Error('Refresh failed');
+      });
+      const assertion = expect(result).rejects.toThrow('Refresh failed');
+      await jest.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      expect(localStorage.getItem('vue3-utils:auth:lock')).toBeNull();
+      sync.close();
+    });
+
+    it('should take over an expired lease from a closed tab', async () => {
+      jest.useFakeTimers();
+      localStorage.setItem('vue3-utils:auth:lock', JSON.stringify({ owner: 'closed-tab', expiresAt: Date.now() + 500 }));
+      const sync = createTabSync();
+      const callback = jest.fn(async () => 'result');
+
+      const result = sync.withLock(callback);
+      await jest.advanceTimersByTimeAsync(400);
+      expect(callback).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(200);
+      await expect(result).resolves.toBe('result');
+      sync.close();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  createMemoryTokenStore,
+  createWebTokenStore,
+  createCookieTokenStore,
+  resolveTokenStore
+} from '../src/core/tokenStore.js';
+
+// Hapus semua cookie di document
+const clearCookies = () => {
+  document.cookie.split('; ').filter(Boolean).forEach((cookie) => {
+    document.cookie = `${cookie.split('=')[0]}=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  });
+};
+
+describe('tokenStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    clearCookies();
+  });
+
+  describe('createMemoryTokenStore', () => {
+    it('should get, set and remove tokens', () => {
+      const store = createMemoryTokenStore();
+
+      expect(store.get('accessToken')).toBeNull();
+      store.set('accessToken', 'token');
+      store.set('refreshTokenExpiration', 1900000000);
+      expect(store.get('accessToken')).toBe('token');
+      expect(store.get('refreshTokenExpiration')).toBe('1900000000');
+
+      store.remove('accessToken');
+      expect(store.get('accessToken')).toBeNull();
+
+      store.set('refreshToken', 'refresh');
+      store.set('refreshToken', null);
+      expect(store.get('refreshToken')).toBeNull();
+    });
+
+    it('should clear only token keys of its prefix', () => {
+      const store = createMemoryTokenStore({ prefix: 'admin:' });
+      store.set('accessToken', 'token');
+      store.set('refreshToken', 'refresh');
+      store.set('userId', '1');
+
+      store.clear();
+
+      expect(store.get('accessToken')).toBeNull();
+      expect(store.get('refreshToken')).toBeNull();
+      expect(store.get('userId')).toBe('1');
+    });
+  });
+
+  describe('createWebTokenStore', () => {
+    it('should store tokens with a prefix', () => {
+      const store = createWebTokenStore(() => localStorage, { prefix: 'app:' });
+
+      store.set('accessToken', 'token');
+
+      expect(localStorage.getItem('app:accessToken')).toBe('token');
+      expect(store.get('accessToken')).toBe('token');
+    });
+
+    it('should use the same keys as before without a prefix', () => {
+      const store = createWebTokenStore(sessionStorage);
+      sessionStorage.setItem('refreshToken', 'refresh');
+      sessionStorage.setItem('theme', 'dark');
+
+      expect(store.get('refreshToken')).toBe('refresh');
+
+      store.clear();
+      expect(sessionStorage.getItem('refreshToken')).toBeNull();
+      expect(sessionStorage.getItem('theme')).toBe('dark');
+    });
+
+    it('should remove the key when set to null', () => {
+      const store = createWebTokenStore(localStorage);
+      store.set('accessToken', 'token');
+
+      store.set('accessToken', undefined);
+
+      expect(localStorage.getItem('accessToken')).toBeNull();
+    });
+
+    it('should be a no-op when storage is unavailable', () => {
+      const store = createWebTokenStore(() => undefined);
+
+      expect(() => store.set('accessToken', 'token')).not.toThrow();
+      expect(store.get('accessToken')).toBeNull();
+      expect(() => store.clear()).not.toThrow();
+    });
+  });
+
+  describe('createCookieTokenStore', () => {
+    it('should read and write cookies with a prefix', () => {
+      const store = createCookieTokenStore({ prefix: 'app_' });
+
+      store.set('accessToken', 'a b;c');
+
+      expect(document.cookie).toContain('app_accessToken=a%20b%3Bc');
+      expect(store.get('accessToken')).toBe('a b;c');
+      expect(store.get('refreshToken')).toBeNull();
+    });
+
+    it('should remove cookies on remove and clear', () => {
+      const store = createCookieTokenStore();
+      store.set('accessToken', 'token');
+      store.set('refreshToken', 'refresh');
+
+      store.remove('accessToken');
+      expect(store.get('accessToken')).toBeNull();
+
+      store.clear();
+      expect(store.get('refreshToken')).toBeNull();
+    });
+
+    it('should write cookie attributes', () => {
+      const cookieSetter = jest.spyOn(document, 'cookie', 'set');
+      const store = createCookieTokenStore({ domain: 'example.com', maxAge: 3600, sameSite: 'Strict', secure: true });
+
+      store.set('accessToken', 'token');
+
+      expect(cookieSetter).toHaveBeenCalledWith(
+        'accessToken=token; Path=/; SameSite=Strict; Domain=example.com; Max-Age=3600; Secure'
+      );
+      cookieSetter.mockRestore();
+    });
+  });
+
+  describe('resolveTokenStore', () => {
+    it('should resolve built-in stores by name with options', () => {
+      resolveTokenStore('localStorage', { prefix: 'app:' }).set('accessToken', 'token');
+      resolveTokenStore('sessionStorage').set('accessToken', 'session-token');
+
+      expect(localStorage.getItem('app:accessToken')).toBe('token');
+      expect(sessionStorage.getItem('accessToken')).toBe('session-token');
+      expect(resolveTokenStore('memory').get('accessToken')).toBeNull();
+      expect(resolveTokenStore('cookie').get('accessToken')).toBeNull();
+    });
+
+    it('should default to localStorage and return custom stores as-is', () => {
+      const custom = createMemoryTokenStore();
+
+      resolveTokenStore().set('accessToken', 'token');
+
+      expect(localStorage.getItem('accessToken')).toBe('token');
+      expect(resolveTokenStore(custom)).toBe(custom);
+    });
+
+    it('should throw for unknown store names', () => {
+      expect(() => resolveTokenStore('redis' as any)).toThrow('Token store "redis" tidak dikenal');
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createProgress, fetchWithProgress, xhrRequest, streamRequest } from '../src/core/transport.js';
+
+// Mock ofetch
+jest.mock('ofetch', () => ({
+  ofetch: Object.assign(jest.fn(), { raw: jest.fn() })
+}));
+
+import { ofetch } from 'ofetch';
+
+// Response stream dari beberapa chunk string
+const streamOf = (...parts: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    },
+  });
+};
+
+const rawResponse = (body: any, headers: Record<string, string> = {}) => ({
+  _data: body,
+  headers: new Headers(headers),
+});
+
+// Fake XMLHttpRequest yang bisa dikontrol dari test
+class FakeXHR {
+  static instances: FakeXHR[] = [];
+  method = '';
+  url = '';
+  headers: Record<string, string> = {};
+  body: any;
+  status = 0;
+  statusText = '';
+  responseType = '';
+  response: any = null;
+  responseText = '';
+  responseHeaders: Record<string, string> = {};
+  upload: any = {};
+  onprogress: any;
+  onload: any;
+  onerror: any;
+  onabort: any;
+  aborted = false;
+
+  constructor() {
+    FakeXHR.instances.push(this);
+  }
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+  getResponseHeader(name: string) {
+    return this.responseHeaders[name.toLowerCase()] ?? null;
+  }
+  send(body: any) {
+    this.body = body;
+  }
+  abort() {
+    this.aborted = true;
+    this.onabort?.();
+  }
+  respond(status: number, text: string, statusText = 'OK') {
+    this.status = status;
+    this.statusText = statusText;
+    this.responseText = text;
+    this.response = text;
+    this.onload?.();
+  }
+}
+
+describe('transport', () => {
+  describe('createProgress', () => {
+    it('should compute percent from loaded and total', () => {
+      expect(createProgress()).toEqual({ loaded: 0, total: 0, percent: 0 });
+      expect(createProgress(50, 200)).toEqual({ loaded: 50, total: 200, percent: 25 });
+      expect(createProgress(10, 0)).toEqual({ loaded: 10, total: 0, percent: 0 });
+      expect(createProgress(300, 200).percent).toBe(100);
+    });
+  });
+
+  describe('fetchWithProgress', () => {
+    beforeEach(() => {
+      (ofetch.raw as any).mockReset();
+    });
+
+    it('should report download progress and parse JSON', async () => {
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(streamOf('{"a":', '1}'), {
+        'content-type': 'application/json',
+        'content-length': '7',
+      }));
+      const onProgress = jest.fn();
+
+      const data = await fetchWithProgress('/api/file', { method: 'GET' }, onProgress);
+
+      expect(ofetch.raw).toHaveBeenCalledWith('/api/file', { method: 'GET', responseType: 'stream' });
+      expect(data).toEqual({ a: 1 });
+      expect(onProgress.mock.calls.map(([progress]: any) => progress.percent)).toEqual([0, 71, 100, 100]);
+    });
+
+    it('should use loaded bytes as total when content-length is missing', async () => {
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(streamOf('hello'), { 'content-type': 'text/plain' }));
+      const onProgress = jest.fn();
+
+      const data = await fetchWithProgress('/api/text', {}, onProgress);
+
+      expect(data).toBe('hello');
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 5, total: 5, percent: 100 });
+    });
+
+    it('should honour responseType option', async () => {
+      (ofetch.raw as any)
+        .mockResolvedValueOnce(rawResponse(streamOf('abc'), { 'content-type': 'application/octet-stream' }))
+        .mockResolvedValueOnce(rawResponse(streamOf('abc')))
+        .mockResolvedValueOnce(rawResponse(streamOf('not json')));
+
+      const blob = await fetchWithProgress('/api/blob', {}, jest.fn());
+      const buffer = await fetchWithProgress('/api/buffer', { responseType: 'arrayBuffer' }, jest.fn());
+      const fallback = await fetchWithProgress('/api/plain', {}, jest.fn());
+
+      expect(blob).toBeInstanceOf(Blob);
+      expect((blob as Blob).size).toBe(3);
+      expect(new Uint8Array(buffer as ArrayBuffer)).toEqual(new TextEncoder().encode('abc'));
+      expect(fallback).toBe('not json');
+    });
+
+    it('should return non-stream bodies as-is', async () => {
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(undefined));
+
+      expect(await fetchWithProgress('/api/empty', {}, jest.fn())).toBeUndefined();
+    });
+  });
+
+  describe('xhrRequest', () => {
+    const originalXHR = globalThis.XMLHttpRequest;
+
+    beforeEach(() => {
+      FakeXHR.instances = [];
+      (globalThis as any).XMLHttpRequest = FakeXHR;
+    });
+
+    afterEach(() => {
+      globalThis.XMLHttpRequest = originalXHR;
+    });
+
+    it('should send JSON body with query and baseURL', async () => {
+      const promise = xhrRequest('/users', {
+        method: 'post',
+        baseURL: 'https://api.example.com/',
+        query: { page: 1, tags: ['a', 'b'], skip: undefined },
+        headers: { authorization: 'Bearer token' },
+        body: { name: 'Budi' },
+      });
+      const xhr = FakeXHR.instances[0];
+
+      expect(xhr.method).toBe('POST');
+      expect(xhr.url).toBe('https://api.example.com/users?page=1&tags=a&tags=b');
+      expect(xhr.headers).toEqual({ authorization: 'Bearer token', 'content-type': 'application/json' });
+      expect(xhr.body).toBe('{"name":"Budi"}');
+
+      xhr.respond(201, '{"id":1}');
+      expect(await promise).toEqual({ id: 1 });
+    });
+
+    it('should send FormData as-is and report upload/download progress', async () => {
+      const form = new FormData();
+      form.append('file', 'content');
+      const onUploadProgress = jest.fn();
+      const onDownloadProgress = jest.fn();
+
+      const promise = xhrRequest('/upload?x=1', { method: 'POST', body: form, query: { y: 2 }, responseType: 'text' }, {
+        onUploadProgress,
+        onDownloadProgress,
+      });
+      const xhr = FakeXHR.instances[0];
+      xhr.upload.onprogress({ loaded: 50, total: 100, lengthComputable: true });
+      xhr.onprogress({ loaded: 10, total: 0, lengthComputable: false });
+      xhr.respond(200, 'ok');
+
+      expect(await promise).toBe('ok');
+      expect(xhr.url).toBe('/upload?x=1&y=2');
+      expect(xhr.body).toBe(form);
+      expect(xhr.headers).toEqual({});
+      expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 50, total: 100, percent: 50 });
+      expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 10, total: 0, percent: 0 });
+    });
+
+    it('should reject HTTP errors with status, data and response headers', async () => {
+      const promise = xhrRequest('/fail', {});
+      const xhr = FakeXHR.instances[0];
+      xhr.responseHeaders = { 'retry-after': '3' };
+      xhr.respond(503, '{"message":"down"}', 'Service Unavailable');
+
+      const error: any = await promise.catch((err) => err);
+      expect(error.name).toBe('FetchError');
+      expect(error.status).toBe(503);
+      expect(error.data).toEqual({ message: 'down' });
+      expect(error.response.headers.get('Retry-After')).toBe('3');
+    });
+
+    it('should reject network errors without status', async () => {
+      const promise = xhrRequest('/offline', {});
+      FakeXHR.instances[0].onerror();
+
+      const error: any = await promise.catch((err) => err);
+      expect(error.name).toBe('FetchError');
+      expect(error.status).toBeUndefined();
+    });
+
+    it('should abort through the signal', async () => {
+      const controller = new AbortController();
+      const promise = xhrRequest('/slow', { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(FakeXHR.instances[0].aborted).toBe(true);
+    });
+
+    it('should reject immediately when signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(xhrRequest('/never', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+      expect(FakeXHR.instances).toHaveLength(0);
+    });
+
+    it('should run onRequest and onResponse interceptors like ofetch', async () => {
+      const onRequest = jest.fn(async ({ options }: any) => {
+        options.headers.set('Authorization', 'Bearer token');
+      });
+      const onResponse = jest.fn<(context: any) => void>();
+      const onResponseError = jest.fn<(context: any) => void>();
+
+      const promise = xhrRequest('/upload', { method: 'POST', onRequest, onResponse, onResponseError });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const xhr = FakeXHR.instances[0];
+      expect(xhr.headers).toEqual({ Authorization: 'Bearer token' });
+      xhr.respond(200, '{"ok":true}');
+
+      expect(await promise).toEqual({ ok: true });
+      expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ request: '/upload' }));
+      expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({
+        response: expect.objectContaining({ status: 200, ok: true, _data: { ok: true } })
+      }));
+      expect(onResponseError).not.toHaveBeenCalled();
+    });
+
+    it('should run error interceptors for HTTP and network errors', async () => {
+      const onResponseError = jest.fn<(context: any) => void>();
+      const onRequestError = jest.fn<(context: any) => void>();
+
+      const failed = xhrRequest('/fail', { onResponseError, onRequestError });
+      FakeXHR.instances[0].respond(401, '{"message":"expired"}', 'Unauthorized');
+      await expect(failed).rejects.toMatchObject({ status: 401 });
+      expect(onResponseError).toHaveBeenCalledWith(expect.objectContaining({
+        response: expect.objectContaining({ status: 401, _data: { message: 'expired' } })
+      }));
+
+      const offline = xhrRequest('/offline', { onResponseError, onRequestError });
+      FakeXHR.instances[1].onerror();
+      await expect(offline).rejects.toMatchObject({ name: 'FetchError' });
+      expect(onRequestError).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(Error) }));
+      expect(onResponseError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use native response for blob responseType', async () => {
+      const promise = xhrRequest('/file', { responseType: 'blob' });
+      const xhr = FakeXHR.instances[0];
+      const blob = new Blob(['x']);
+
+      expect(xhr.responseType).toBe('blob');
+      xhr.status = 200;
+      xhr.response = blob;
+      xhr.onload();
+
+      expect(await promise).toBe(blob);
+    });
+  });
+
+  describe('streamRequest', () => {
+    beforeEach(() => {
+      (ofetch.raw as any).mockReset();
+    });
+
+    const collect = async (format: any, ...parts: string[]) => {
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(streamOf(...parts)));
+      const received: any[] = [];
+      await streamRequest('/api/stream', { method: 'POST' }, { format, onChunk: (chunk: any) => received.push(chunk) });
+      return received;
+    };
+
+    it('should emit text chunks as they arrive', async () => {
+      expect(await collect('text', 'Hel', 'lo')).toEqual(['Hel', 'lo']);
+      expect(ofetch.raw).toHaveBeenCalledWith('/api/stream', { method: 'POST', responseType: 'stream' });
+    });
+
+    it('should parse NDJSON lines split across chunks', async () => {
+      expect(await collect('ndjson', '{"a":1}\n{"b"', ':2}\n\n{"c":3}')).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+    });
+
+    it('should parse SSE events with CRLF, comments and multi-line data', async () => {
+      const events = await collect(
+        'sse',
+        ': keep-alive\r\n\r\ndata: {"token":"Hal"}\r\n\r\nevent: done\nid: 7\ndata: line 1\n',
+        'data: line 2\n\nevent: empty\n\ndata'
+      );
+
+      expect(events).toEqual([
+        { event: 'message', data: { token: 'Hal' }, id: undefined },
+        { event: 'done', data: 'line 1\nline 2', id: '7' },
+        { event: 'message', data: '', id: undefined },
+      ]);
+    });
+
+    it('should stop reading when the signal is aborted', async () => {
+      const controller = new AbortController();
+      let cancelled = false;
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(new ReadableStream({
+        pull(streamController) {
+          streamController.enqueue(new TextEncoder().encode('tick'));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      })));
+      const onChunk = jest.fn(() => controller.abort());
+
+      await expect(streamRequest('/api/endless', { signal: controller.signal }, { onChunk }))
+        .rejects.toMatchObject({ name: 'AbortError' });
+
+      expect(cancelled).toBe(true);
+      expect(onChunk).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not flush a partial NDJSON line after an abort', async () => {
+      const controller = new AbortController();
+      const encoder = new TextEncoder();
+      let streamController: ReadableStreamDefaultController<Uint8Array>;
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(new ReadableStream<Uint8Array>({
+        start(created) {
+          streamController = created;
+        },
+      })));
+      const onChunk = jest.fn();
+
+      const pending = streamRequest('/api/logs', { signal: controller.signal }, { format: 'ndjson', onChunk });
+      await Promise.resolve();
+      streamController!.enqueue(encoder.encode('{"a":1}\n{"b"'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(onChunk).toHaveBeenCalledTimes(1);
+      expect(onChunk).toHaveBeenCalledWith({ a: 1 });
+    });
+
+    it('should ignore responses without a readable body', async () => {
+      (ofetch.raw as any).mockResolvedValueOnce(rawResponse(null));
+      const onChunk = jest.fn();
+
+      await streamRequest('/api/empty', {}, { onChunk });
+
+      expect(onChunk).not.toHaveBeenCalled();
+    });
+  });
+});
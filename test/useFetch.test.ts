@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { useFetch } from '../src/wrapper/useFetch.js';
-import { nextTick } from 'vue';
+import { createMemoryStorage } from '../src/core/cacheStorage.js';
+import { invalidateQueries, setQueryData, getQueryData } from '../src/core/queryClient.js';
+import { hydrateFetchPayload } from '../src/core/ssrPayload.js';
+import { FetchError, ValidationError } from '../src/core/errors.js';
+import { createFetchConfig, vue3Utils, FETCH_CONFIG_KEY } from '../src/core/fetchConfig.js';
+import { createOfflineQueue } from '../src/core/offlineQueue.js';
+import { nextTick, ref, defineComponent, h, Suspense } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
 
 // Mock ofetch
 jest.mock('ofetch', () => ({
@@ -79,7 +86,7 @@ describe('useFetch', () => {
       await jest.runAllTimersAsync();
       await nextTick();
 
-      expect(error.value).toBe(mockError);
+      expect(error.value?.cause).toBe(mockError);
       expect(loading.value).toBe(false);
     });
 
@@ -258,6 +265,1535 @@ describe('useFetch', () => {
     });
   });
 
+  describe('stale-while-revalidate', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should serve fresh cache without request', async () => {
+      (ofetch as any).mockResolvedValueOnce({ version: 1 });
+
+      useFetch('/api/swr-fresh', {}, { staleTime: 1000, cacheTime: 10000 });
+      await jest.advanceTimersByTimeAsync(10);
+
+      const { data, isValidating } = useFetch('/api/swr-fresh', {}, { staleTime: 1000, cacheTime: 10000 });
+      await jest.advanceTimersByTimeAsync(10);
+
+      expect(data.value).toEqual({ version: 1 });
+      expect(isValidating.value).toBe(false);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return stale data immediately and revalidate in background', async () => {
+      (ofetch as any).mockResolvedValueOnce({ version: 1 });
+
+      useFetch('/api/swr-stale', {}, { staleTime: 1000, cacheTime: 10000 });
+      await jest.advanceTimersByTimeAsync(10);
+
+      await jest.advanceTimersByTimeAsync(2000);
+
+      let resolveRevalidate: (value: unknown) => void = () => {};
+      (ofetch as any).mockImplementationOnce(() => new Promise((resolve) => { resolveRevalidate = resolve; }));
+
+      const { data, loading, isValidating } = useFetch('/api/swr-stale', {}, { staleTime: 1000, cacheTime: 10000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(data.value).toEqual({ version: 1 });
+      expect(loading.value).toBe(false);
+      expect(isValidating.value).toBe(true);
+
+      resolveRevalidate({ version: 2 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(data.value).toEqual({ version: 2 });
+      expect(isValidating.value).toBe(false);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep stale data when revalidation fails', async () => {
+      (ofetch as any).mockResolvedValueOnce({ version: 1 });
+
+      useFetch('/api/swr-error', {}, { staleTime: 1000, cacheTime: 10000 });
+      await jest.advanceTimersByTimeAsync(2000);
+
+      const failure = new Error('Revalidate failed');
+      (ofetch as any).mockRejectedValueOnce(failure);
+
+      const { data, error, isValidating } = useFetch('/api/swr-error', {}, { staleTime: 1000, cacheTime: 10000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(data.value).toEqual({ version: 1 });
+      expect(error.value?.cause).toBe(failure);
+      expect(isValidating.value).toBe(false);
+    });
+
+    it('should set isValidating during regular fetch', async () => {
+      (ofetch as any).mockResolvedValueOnce({ ok: true });
+
+      const { loading, isValidating } = useFetch('/api/swr-regular');
+
+      expect(loading.value).toBe(true);
+      expect(isValidating.value).toBe(true);
+
+      await jest.runAllTimersAsync();
+      expect(isValidating.value).toBe(false);
+    });
+  });
+
+  describe('request deduplication', () => {
+    // Helper to mount useFetch inside a component so unmount can be tested
+    const mountUseFetch = (...args: any[]) => {
+      let result: any;
+      const wrapper = mount(defineComponent({
+        setup() {
+          result = (useFetch as any)(...args);
+          return () => null;
+        },
+      }));
+      return { wrapper, result };
+    };
+
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should share one request between concurrent callers', async () => {
+      (ofetch as any).mockResolvedValue({ me: true });
+
+      const callers = Array.from({ length: 5 }, () => useFetch('/api/me', {}, { cacheTime: 5000 }));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      callers.forEach(({ data }) => expect(data.value).toEqual({ me: true }));
+    });
+
+    it('should share errors between concurrent callers', async () => {
+      const failure = new Error('Shared failure');
+      (ofetch as any).mockRejectedValueOnce(failure);
+
+      const first = useFetch('/api/shared-error');
+      const second = useFetch('/api/shared-error');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(first.error.value?.cause).toBe(failure);
+      expect(second.error.value?.cause).toBe(failure);
+    });
+
+    it('should only detach the caller that unmounts', async () => {
+      let signal: AbortSignal | undefined;
+      let resolveShared: (value: unknown) => void = () => {};
+      (ofetch as any).mockImplementationOnce((_url: string, opts: any) => {
+        signal = opts.signal;
+        return new Promise((resolve) => { resolveShared = resolve; });
+      });
+
+      const first = mountUseFetch('/api/detach');
+      const second = mountUseFetch('/api/detach');
+
+      first.wrapper.unmount();
+      expect(signal?.aborted).toBe(false);
+
+      resolveShared({ shared: true });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(second.result.data.value).toEqual({ shared: true });
+      expect(first.result.data.value).toBeNull();
+      second.wrapper.unmount();
+    });
+
+    it('should abort shared request when every caller detaches', async () => {
+      let signal: AbortSignal | undefined;
+      (ofetch as any).mockImplementationOnce((_url: string, opts: any) => {
+        signal = opts.signal;
+        return new Promise(() => {});
+      });
+
+      const first = mountUseFetch('/api/all-detached');
+      const second = mountUseFetch('/api/all-detached');
+
+      first.wrapper.unmount();
+      second.wrapper.unmount();
+
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should send separate requests when dedupe is disabled', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+
+      useFetch('/api/no-dedupe', {}, { dedupe: false });
+      useFetch('/api/no-dedupe', {}, { dedupe: false });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retry', () => {
+    const httpError = (status: number, headers: Record<string, string> = {}) =>
+      Object.assign(new Error(`HTTP ${status}`), {
+        status,
+        response: { status, headers: new Headers(headers) },
+      });
+
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should retry 5xx errors with exponential backoff', async () => {
+      (ofetch as any)
+        .mockRejectedValueOnce(httpError(500))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ ok: true });
+
+      const { data, error, attempt } = useFetch('/api/retry-5xx', {}, { retry: 3, retryDelay: 100 });
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(attempt.value).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(attempt.value).toBe(2);
+
+      // Second retry waits 200ms (100 * 2)
+      await jest.advanceTimersByTimeAsync(100);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(data.value).toEqual({ ok: true });
+      expect(error.value).toBeNull();
+    });
+
+    it('should disable ofetch built-in retry when retry is configured', async () => {
+      (ofetch as any).mockResolvedValueOnce({ ok: true });
+
+      useFetch('/api/retry-option', {}, { retry: 1 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledWith('/api/retry-option', expect.objectContaining({ retry: 0 }));
+    });
+
+    it('should stop after max retries and expose the last error', async () => {
+      const failure = httpError(502);
+      (ofetch as any).mockRejectedValue(failure);
+
+      const { error, attempt } = useFetch('/api/retry-max', {}, { retry: 2, retryDelay: 10 });
+      await jest.runAllTimersAsync();
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(attempt.value).toBe(2);
+      expect(error.value?.cause).toBe(failure);
+    });
+
+    it('should not retry 4xx errors by default', async () => {
+      const failure = httpError(404);
+      (ofetch as any).mockRejectedValue(failure);
+
+      const { error } = useFetch('/api/retry-404', {}, { retry: 3 });
+      await jest.runAllTimersAsync();
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(error.value?.cause).toBe(failure);
+    });
+
+    it('should retry network errors and 429', async () => {
+      (ofetch as any)
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockRejectedValueOnce(httpError(429))
+        .mockResolvedValueOnce({ ok: true });
+
+      const { data } = useFetch('/api/retry-network', {}, { retry: 2, retryDelay: 10 });
+      await jest.runAllTimersAsync();
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(data.value).toEqual({ ok: true });
+    });
+
+    it('should honour Retry-After header', async () => {
+      (ofetch as any)
+        .mockRejectedValueOnce(httpError(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      useFetch('/api/retry-after', {}, { retry: 1, retryDelay: 10 });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use custom retryDelay function and shouldRetry predicate', async () => {
+      const failure = httpError(400);
+      (ofetch as any).mockRejectedValueOnce(failure).mockResolvedValueOnce({ ok: true });
+
+      const retryDelay = jest.fn((_attempt: number) => 50);
+      const shouldRetry = jest.fn((_error: unknown, _attempt: number) => true);
+      const { data } = useFetch('/api/retry-custom', {}, { retry: 1, retryDelay, shouldRetry });
+
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(shouldRetry).toHaveBeenCalledWith(failure, 1);
+      expect(retryDelay).toHaveBeenCalledWith(1);
+      expect(data.value).toEqual({ ok: true });
+    });
+
+    it('should cancel pending retry when a new fetch starts', async () => {
+      (ofetch as any)
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValueOnce({ fresh: true });
+
+      const { data, refetch } = useFetch('/api/retry-cancel', {}, { retry: 3, retryDelay: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      refetch();
+      await jest.runAllTimersAsync();
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(data.value).toEqual({ fresh: true });
+    });
+  });
+
+  describe('cache storage', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+      localStorage.clear();
+    });
+
+    it('should persist cache entries with TTL metadata in localStorage', async () => {
+      (ofetch as any).mockResolvedValueOnce({ persisted: true });
+
+      useFetch('/api/persist', {}, { cacheTime: 5000, storage: 'localStorage' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      const stored = JSON.parse(localStorage.getItem('vue3-utils:fetch:GET:/api/persist')!);
+      expect(stored.data).toEqual({ persisted: true });
+      expect(stored.expiresAt - stored.timestamp).toBe(5000);
+    });
+
+    it('should read cache from persistent storage', async () => {
+      const now = Date.now();
+      localStorage.setItem(
+        'vue3-utils:fetch:GET:/api/from-storage',
+        JSON.stringify({ data: { restored: true }, timestamp: now, expiresAt: now + 5000 })
+      );
+
+      const { data } = useFetch('/api/from-storage', {}, { cacheTime: 5000, storage: 'localStorage' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(data.value).toEqual({ restored: true });
+      expect(ofetch).not.toHaveBeenCalled();
+    });
+
+    it('should use custom storage adapter and clear it', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValueOnce({ custom: true });
+
+      const { clearCache } = useFetch('/api/custom-storage', {}, { cacheTime: 5000, storage });
+      await jest.advanceTimersByTimeAsync(0);
+      expect((storage.get('GET:/api/custom-storage') as any)?.data).toEqual({ custom: true });
+
+      clearCache();
+      expect(storage.get('GET:/api/custom-storage')).toBeUndefined();
+    });
+  });
+
+  describe('invalidation', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should refetch mounted instances matching url prefix', async () => {
+      (ofetch as any).mockResolvedValueOnce({ version: 1 }).mockResolvedValueOnce({ version: 2 });
+
+      const { data } = useFetch('/api/invalidate/users', {}, { cacheTime: 5000 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(data.value).toEqual({ version: 1 });
+
+      await invalidateQueries('/api/invalidate');
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(data.value).toEqual({ version: 2 });
+    });
+
+    it('should refetch instances matching tags and persist tags in cache', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValue({ ok: true });
+
+      useFetch('/api/invalidate/tagged', {}, { cacheTime: 5000, tags: ['tagged'], storage });
+      useFetch('/api/invalidate/untagged', {}, { cacheTime: 5000, storage });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(storage.get('GET:/api/invalidate/tagged')?.tags).toEqual(['tagged']);
+
+      await invalidateQueries({ tags: ['tagged'] }, { storage });
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(ofetch).toHaveBeenLastCalledWith('/api/invalidate/tagged', expect.any(Object));
+      expect(storage.get('GET:/api/invalidate/untagged')).toBeDefined();
+    });
+
+    it('should only clear cache for instances that never fetched', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+
+      useFetch('/api/invalidate/manual', {}, { immediate: false });
+      await invalidateQueries('/api/invalidate/manual');
+
+      expect(ofetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cache key', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should not share cache between POST requests with different bodies', async () => {
+      (ofetch as any).mockResolvedValueOnce({ q: 'vue' }).mockResolvedValueOnce({ q: 'react' });
+
+      const vue = useFetch('/api/key-search', { method: 'POST', body: { q: 'vue' } }, { cacheTime: 5000 });
+      const react = useFetch('/api/key-search', { method: 'POST', body: { q: 'react' } }, { cacheTime: 5000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(vue.data.value).toEqual({ q: 'vue' });
+      expect(react.data.value).toEqual({ q: 'react' });
+    });
+
+    it('should reuse cache for equivalent queries in different key order', async () => {
+      (ofetch as any).mockResolvedValueOnce({ list: true });
+
+      useFetch('/api/key-order', { query: { page: 1, sort: 'name' } }, { cacheTime: 5000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      const { data } = useFetch('/api/key-order', { query: { sort: 'name', page: 1 } }, { cacheTime: 5000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(data.value).toEqual({ list: true });
+    });
+
+    it('should use custom key and getKey', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValue({ ok: true });
+      const getKey = jest.fn(({ url, query }: any) => `custom:${url}:${query.page}`);
+
+      useFetch('/api/key-custom', {}, { cacheTime: 5000, key: 'my-key', storage });
+      useFetch('/api/key-getter', { query: { page: 3 } }, { cacheTime: 5000, getKey, storage });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(storage.keys()).toEqual(['my-key', 'custom:/api/key-getter:3']);
+    });
+  });
+
+  describe('refetch triggers', () => {
+    const mountUseFetch = (...args: any[]) => {
+      let result: any;
+      const wrapper = mount(defineComponent({
+        setup() {
+          result = (useFetch as any)(...args);
+          return () => null;
+        },
+      }));
+      return { wrapper, result };
+    };
+
+    const setVisibility = (state: 'visible' | 'hidden') => {
+      Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+    };
+
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+      (ofetch as any).mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+      setVisibility('visible');
+    });
+
+    it('should poll every refetchInterval', async () => {
+      const { wrapper } = mountUseFetch('/api/poll', {}, { refetchInterval: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(ofetch).toHaveBeenCalledTimes(4);
+
+      wrapper.unmount();
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(ofetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should pause polling while the document is hidden', async () => {
+      const { wrapper } = mountUseFetch('/api/poll-hidden', {}, { refetchInterval: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      setVisibility('hidden');
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+
+      setVisibility('visible');
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      wrapper.unmount();
+    });
+
+    it('should respect fresh cache when polling', async () => {
+      const { wrapper } = mountUseFetch('/api/poll-cache', {}, {
+        refetchInterval: 1000,
+        cacheTime: 10000,
+        staleTime: 2500,
+        storage: createMemoryStorage(),
+      });
+      await jest.advanceTimersByTimeAsync(0);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      wrapper.unmount();
+    });
+
+    it('should not poll before the first fetch', async () => {
+      const { wrapper } = mountUseFetch('/api/poll-manual', {}, { refetchInterval: 1000, immediate: false });
+
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(ofetch).not.toHaveBeenCalled();
+      wrapper.unmount();
+    });
+
+    it('should refetch on window focus and visibility change', async () => {
+      const { wrapper } = mountUseFetch('/api/focus', {}, { refetchOnWindowFocus: true });
+      await jest.advanceTimersByTimeAsync(0);
+
+      window.dispatchEvent(new Event('focus'));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+
+      document.dispatchEvent(new Event('visibilitychange'));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(3);
+
+      setVisibility('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(3);
+
+      wrapper.unmount();
+      setVisibility('visible');
+      window.dispatchEvent(new Event('focus'));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip focus refetch while a request is in flight', async () => {
+      (ofetch as any).mockImplementation(() => new Promise(() => {}));
+      const { wrapper } = mountUseFetch('/api/focus-busy', {}, { refetchOnWindowFocus: true });
+
+      window.dispatchEvent(new Event('focus'));
+      window.dispatchEvent(new Event('focus'));
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      wrapper.unmount();
+    });
+
+    it('should refetch when the connection comes back online', async () => {
+      const { wrapper } = mountUseFetch('/api/online', {}, { refetchOnReconnect: true });
+      await jest.advanceTimersByTimeAsync(0);
+
+      window.dispatchEvent(new Event('online'));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+
+      wrapper.unmount();
+      window.dispatchEvent(new Event('online'));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not listen to window events by default', async () => {
+      const { wrapper } = mountUseFetch('/api/no-triggers');
+      await jest.advanceTimersByTimeAsync(0);
+
+      window.dispatchEvent(new Event('focus'));
+      window.dispatchEvent(new Event('online'));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      wrapper.unmount();
+    });
+  });
+
+  describe('ssr hydration', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    afterEach(() => {
+      delete (window as any).__VUE3_UTILS_FETCH__;
+    });
+
+    it('should use hydrated payload for the first render without a request', () => {
+      hydrateFetchPayload({ 'GET:/api/hydrated': { data: { name: 'Server' }, timestamp: Date.now() } });
+
+      const { data, loading } = useFetch('/api/hydrated');
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(data.value).toEqual({ name: 'Server' });
+      expect(loading.value).toBe(false);
+    });
+
+    it('should share hydrated data between instances during hydration', async () => {
+      hydrateFetchPayload(JSON.stringify({ 'GET:/api/hydrated-shared': { data: 1, timestamp: Date.now() } }));
+
+      const first = useFetch('/api/hydrated-shared');
+      const second = useFetch('/api/hydrated-shared');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(first.data.value).toBe(1);
+      expect(second.data.value).toBe(1);
+    });
+
+    it('should drop hydrated data once hydration has finished', async () => {
+      (ofetch as any).mockResolvedValue({ name: 'Client' });
+      hydrateFetchPayload(JSON.stringify({ 'GET:/api/hydrated-once': { data: 1, timestamp: Date.now() } }));
+
+      useFetch('/api/hydrated-once');
+      await jest.advanceTimersByTimeAsync(0);
+      const { data } = useFetch('/api/hydrated-once');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(data.value).toEqual({ name: 'Client' });
+    });
+
+    it('should seed the cache with server timestamp', () => {
+      const storage = createMemoryStorage();
+      const timestamp = Date.now() - 1000;
+      hydrateFetchPayload({ 'GET:/api/hydrated-cache': { data: [1], timestamp } });
+
+      useFetch('/api/hydrated-cache', {}, { cacheTime: 5000, storage, tags: ['list'] });
+
+      expect(storage.peek('GET:/api/hydrated-cache')).toEqual({
+        data: [1],
+        timestamp,
+        expiresAt: timestamp + 5000,
+        url: '/api/hydrated-cache',
+        tags: ['list'],
+      });
+    });
+
+    it('should read payload from window by default', () => {
+      hydrateFetchPayload();
+      (window as any).__VUE3_UTILS_FETCH__ = { 'GET:/api/hydrated-window': { data: 'ok', timestamp: Date.now() } };
+      hydrateFetchPayload();
+
+      const { data } = useFetch('/api/hydrated-window');
+
+      expect(data.value).toBe('ok');
+    });
+
+    it('should keep hydrated data for immediate: false instances', async () => {
+      hydrateFetchPayload({ 'GET:/api/hydrated-manual': { data: 'ok', timestamp: Date.now() } });
+
+      const manual = useFetch('/api/hydrated-manual', {}, { immediate: false });
+      const auto = useFetch('/api/hydrated-manual');
+
+      expect(manual.data.value).toBeNull();
+      expect(auto.data.value).toBe('ok');
+    });
+  });
+
+  describe('awaitable return', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should resolve with reactive state once the first fetch completes', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce({ id: 2 });
+
+      const result = await useFetch('/api/await');
+
+      expect(result.data.value).toEqual({ id: 1 });
+      expect(result.loading.value).toBe(false);
+      expect('then' in result).toBe(false);
+
+      await result.refetch();
+      expect(result.data.value).toEqual({ id: 2 });
+    });
+
+    it('should keep working without await', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 });
+
+      const { data, loading } = useFetch('/api/no-await');
+
+      expect(loading.value).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(data.value).toEqual({ id: 1 });
+    });
+
+    it('should resolve immediately without fetching when immediate is false', async () => {
+      const { data, loading } = await useFetch('/api/await-manual', {}, { immediate: false });
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(data.value).toBeNull();
+      expect(loading.value).toBe(false);
+    });
+
+    it('should resolve with error instead of rejecting', async () => {
+      const failure = new Error('Network error');
+      (ofetch as any).mockRejectedValueOnce(failure);
+
+      const { data, error } = await useFetch('/api/await-error');
+
+      expect(data.value).toBeNull();
+      expect(error.value?.cause).toBe(failure);
+    });
+
+    it('should wait for the newest request when the source changes', async () => {
+      (ofetch as any).mockImplementation((requestUrl: string) =>
+        new Promise((resolve) => setTimeout(() => resolve({ url: requestUrl }), 100)));
+      const id = ref(1);
+
+      const pending = useFetch(() => `/api/await/${id.value}`);
+      id.value = 2;
+      await nextTick();
+
+      const resultPromise = pending.then((state) => state);
+      await jest.advanceTimersByTimeAsync(100);
+      const { data } = await resultPromise;
+
+      expect(data.value).toEqual({ url: '/api/await/2' });
+    });
+
+    it('should work inside async setup with Suspense', async () => {
+      jest.useRealTimers();
+      (ofetch as any).mockResolvedValueOnce({ name: 'Suspense' });
+
+      const AsyncChild = defineComponent({
+        async setup() {
+          const { data } = await useFetch('/api/suspense');
+          return () => h('p', data.value.name);
+        },
+      });
+      const wrapper = mount(defineComponent({
+        render: () => h(Suspense, null, {
+          default: () => h(AsyncChild),
+          fallback: () => h('span', 'loading'),
+        }),
+      }));
+
+      expect(wrapper.html()).toContain('loading');
+      await flushPromises();
+      expect(wrapper.html()).toContain('<p>Suspense</p>');
+      wrapper.unmount();
+    });
+  });
+
+  describe('transform, select and validate', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should transform the response before caching', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValueOnce({ result: { items: [1, 2] } });
+
+      const { data } = await useFetch('/api/transform', {}, {
+        cacheTime: 5000,
+        storage,
+        transform: (response: any) => response.result.items,
+      });
+
+      expect(data.value).toEqual([1, 2]);
+      expect(storage.peek('GET:/api/transform')!.data).toEqual([1, 2]);
+    });
+
+    it('should support async transform', async () => {
+      (ofetch as any).mockResolvedValueOnce('raw');
+
+      const { data } = await useFetch('/api/transform-async', {}, {
+        transform: async (response: any) => `${response}!`,
+      });
+
+      expect(data.value).toBe('raw!');
+    });
+
+    it('should apply select per consumer while caching full data', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValueOnce({ id: 1, name: 'Budi', email: 'budi@example.com' });
+      const config = { cacheTime: 5000, storage };
+
+      const full = await useFetch('/api/select', {}, config);
+      const name = await useFetch('/api/select', {}, { ...config, select: (user: any) => user.name });
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(full.data.value).toEqual({ id: 1, name: 'Budi', email: 'budi@example.com' });
+      expect(name.data.value).toBe('Budi');
+      expect(storage.peek('GET:/api/select')!.data).toEqual(full.data.value);
+    });
+
+    it('should apply select to data pushed by setQueryData', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValueOnce([1, 2, 3]);
+      let result: any;
+      const wrapper = mount(defineComponent({
+        setup() {
+          result = useFetch('/api/select-push', {}, { cacheTime: 5000, storage, select: (list: number[]) => list.length });
+          return () => null;
+        },
+      }));
+      await jest.advanceTimersByTimeAsync(0);
+
+      await setQueryData('GET:/api/select-push', (list = [] as number[]) => [...list, 4], { storage });
+
+      expect(result.data.value).toBe(4);
+      expect(await getQueryData('GET:/api/select-push', { storage })).toEqual([1, 2, 3, 4]);
+      wrapper.unmount();
+    });
+
+    it('should route validator exceptions to error as ValidationError', async () => {
+      const storage = createMemoryStorage();
+      const issue = new Error('Expected number, received string');
+      (ofetch as any).mockResolvedValueOnce({ id: 'abc' });
+
+      const { data, error } = await useFetch('/api/validate', {}, {
+        cacheTime: 5000,
+        storage,
+        validate: () => {
+          throw issue;
+        },
+      });
+
+      expect(data.value).toBeNull();
+      expect(error.value).toBeInstanceOf(ValidationError);
+      expect(error.value!.message).toBe('Expected number, received string');
+      expect((error.value as any).cause).toBe(issue);
+      expect((error.value as any).data).toEqual({ id: 'abc' });
+      expect(storage.keys()).toEqual([]);
+    });
+
+    it('should treat false from validator as failure', async () => {
+      (ofetch as any).mockResolvedValueOnce([]);
+
+      const { error } = await useFetch('/api/validate-false', {}, {
+        validate: (list: any) => Array.isArray(list) && list.length > 0,
+      });
+
+      expect(error.value).toBeInstanceOf(ValidationError);
+      expect(error.value!.name).toBe('ValidationError');
+    });
+
+    it('should validate transformed data and not retry validation errors', async () => {
+      (ofetch as any).mockResolvedValue({ payload: { id: 1 } });
+      const validate = jest.fn((_data: any) => ({ id: 1 }));
+
+      const { data, error } = await useFetch('/api/validate-ok', {}, {
+        retry: 2,
+        transform: (response: any) => response.payload,
+        validate,
+      });
+
+      expect(validate).toHaveBeenCalledWith({ id: 1 });
+      expect(data.value).toEqual({ id: 1 });
+      expect(error.value).toBeNull();
+      expect(ofetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('progress', () => {
+    const originalXHR = globalThis.XMLHttpRequest;
+
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+      (ofetch as any).raw = jest.fn();
+    });
+
+    afterEach(() => {
+      delete (ofetch as any).raw;
+      globalThis.XMLHttpRequest = originalXHR;
+    });
+
+    it('should expose idle progress by default', () => {
+      const { uploadProgress, downloadProgress } = useFetch('/api/progress-idle', {}, { immediate: false });
+
+      expect(uploadProgress.value).toEqual({ loaded: 0, total: 0, percent: 0 });
+      expect(downloadProgress.value).toEqual({ loaded: 0, total: 0, percent: 0 });
+    });
+
+    it('should track download progress by streaming the body', async () => {
+      const encoder = new TextEncoder();
+      (ofetch as any).raw.mockResolvedValueOnce({
+        headers: new Headers({ 'content-type': 'application/json', 'content-length': '8' }),
+        _data: new ReadableStream({
+          start(controller) {
+            controller.enqueue(encoder.encode('{"ok":'));
+            controller.enqueue(encoder.encode('1}'));
+            controller.close();
+          },
+        }),
+      });
+
+      const { data, downloadProgress } = await useFetch('/api/download', {}, { progress: true });
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(data.value).toEqual({ ok: 1 });
+      expect(downloadProgress.value).toEqual({ loaded: 8, total: 8, percent: 100 });
+    });
+
+    it('should not dedupe requests that track progress', async () => {
+      (ofetch as any).raw.mockResolvedValue({ headers: new Headers(), _data: 'done' });
+
+      useFetch('/api/progress-dedupe', {}, { progress: true });
+      useFetch('/api/progress-dedupe', {}, { progress: true });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((ofetch as any).raw).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track upload progress with the xhr transport and cancel through abort', async () => {
+      const instances: any[] = [];
+      (globalThis as any).XMLHttpRequest = class {
+        upload: any = {};
+        status = 0;
+        responseType = '';
+        responseText = '';
+        onload: any;
+        onabort: any;
+        aborted = false;
+        constructor() {
+          instances.push(this);
+        }
+        open() {}
+        setRequestHeader() {}
+        send() {}
+        abort() {
+          this.aborted = true;
+          this.onabort();
+        }
+      };
+      const form = new FormData();
+
+      const { uploadProgress, loading, refetch } = useFetch('/api/upload', { method: 'POST', body: form }, {
+        transport: 'xhr',
+        immediate: false,
+      });
+
+      const first = refetch();
+      await jest.advanceTimersByTimeAsync(0);
+      instances[0].upload.onprogress({ loaded: 30, total: 120, lengthComputable: true });
+      expect(uploadProgress.value.percent).toBe(25);
+
+      const second = refetch();
+      await first;
+      expect(instances[0].aborted).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(uploadProgress.value.percent).toBe(0);
+      instances[1].status = 200;
+      instances[1].responseText = '{"uploaded":true}';
+      instances[1].onload();
+
+      expect(await second).toEqual({ uploaded: true });
+      expect(loading.value).toBe(false);
+    });
+  });
+
+  describe('streaming', () => {
+    const encoder = new TextEncoder();
+
+    // Stream yang chunk-nya dikirim manual dari test
+    const controllableStream = () => {
+      let streamController: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          streamController = controller;
+        },
+      });
+      return {
+        body,
+        push: (text: string) => streamController.enqueue(encoder.encode(text)),
+        close: () => streamController.close(),
+      };
+    };
+
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+      (ofetch as any).raw = jest.fn();
+    });
+
+    afterEach(() => {
+      delete (ofetch as any).raw;
+    });
+
+    it('should append text chunks reactively and resolve full text', async () => {
+      const stream = controllableStream();
+      (ofetch as any).raw.mockResolvedValueOnce({ headers: new Headers(), _data: stream.body });
+
+      const { chunks, data, loading } = useFetch('/api/stream-text', { method: 'POST' }, { stream: true });
+      await jest.advanceTimersByTimeAsync(0);
+
+      stream.push('Hello ');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(chunks.value).toEqual(['Hello ']);
+      expect(loading.value).toBe(true);
+
+      stream.push('world');
+      stream.close();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(chunks.value).toEqual(['Hello ', 'world']);
+      expect(data.value).toBe('Hello world');
+      expect(loading.value).toBe(false);
+    });
+
+    it('should parse NDJSON into chunks and data', async () => {
+      const stream = controllableStream();
+      (ofetch as any).raw.mockResolvedValueOnce({ headers: new Headers(), _data: stream.body });
+
+      const pending = useFetch('/api/stream-logs', {}, { stream: 'ndjson' });
+      stream.push('{"line":1}\n{"line":2}\n');
+      stream.close();
+      const { chunks, data } = await pending;
+
+      expect(chunks.value).toEqual([{ line: 1 }, { line: 2 }]);
+      expect(data.value).toEqual([{ line: 1 }, { line: 2 }]);
+    });
+
+    it('should call onChunk instead of collecting chunks', async () => {
+      const stream = controllableStream();
+      (ofetch as any).raw.mockResolvedValueOnce({ headers: new Headers(), _data: stream.body });
+      const onChunk = jest.fn();
+
+      const pending = useFetch('/api/stream-sse', { method: 'POST', body: { prompt: 'hi' } }, { stream: 'sse', onChunk });
+      stream.push('data: {"token":"a"}\n\ndata: {"token":"b"}\n\n');
+      stream.close();
+      const { chunks, data } = await pending;
+
+      expect(onChunk).toHaveBeenCalledTimes(2);
+      expect(onChunk).toHaveBeenLastCalledWith({ event: 'message', data: { token: 'b' }, id: undefined });
+      expect(chunks.value).toEqual([]);
+      expect(data.value).toBeNull();
+      expect((ofetch as any).raw.mock.calls[0][1]).toMatchObject({ method: 'POST', body: { prompt: 'hi' } });
+    });
+
+    it('should report onChunk errors as parse errors without retrying', async () => {
+      const stream = controllableStream();
+      (ofetch as any).raw.mockResolvedValueOnce({ headers: new Headers(), _data: stream.body });
+      const onChunk = jest.fn(() => {
+        throw new TypeError('render failed');
+      });
+
+      const pending = useFetch('/api/stream-chunk-error', {}, { stream: 'ndjson', onChunk, retry: 2 });
+      stream.push('{"line":1}\n');
+      stream.close();
+      const { error } = await pending;
+
+      expect(error.value).toMatchObject({ kind: 'parse', data: { line: 1 } });
+      expect((ofetch as any).raw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a timeout when a text stream hangs', async () => {
+      const stream = controllableStream();
+      (ofetch as any).raw.mockResolvedValueOnce({ headers: new Headers(), _data: stream.body });
+
+      const { chunks, data, error, loading } = useFetch('/api/stream-hang', {}, { stream: 'text', timeout: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+      stream.push('partial');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(chunks.value).toEqual(['partial']);
+      expect(data.value).toBeNull();
+      expect(error.value?.kind).toBe('timeout');
+      expect(loading.value).toBe(false);
+    });
+
+    it('should not report a parse error when a superseded NDJSON stream is aborted mid-line', async () => {
+      const first = controllableStream();
+      const second = controllableStream();
+      (ofetch as any).raw
+        .mockResolvedValueOnce({ headers: new Headers(), _data: first.body })
+        .mockResolvedValueOnce({ headers: new Headers(), _data: second.body });
+
+      const { data, error, refetch } = useFetch('/api/stream-superseded', {}, { stream: 'ndjson' });
+      await jest.advanceTimersByTimeAsync(0);
+      first.push('{"line":1}\n{"line"');
+      await jest.advanceTimersByTimeAsync(0);
+
+      const next = refetch();
+      second.push('{"line":2}\n');
+      second.close();
+      await next;
+
+      expect(error.value).toBeNull();
+      expect(data.value).toEqual([{ line: 2 }]);
+    });
+
+    it('should abort the stream on unmount', async () => {
+      const stream = controllableStream();
+      (ofetch as any).raw.mockResolvedValueOnce({ headers: new Headers(), _data: stream.body });
+      let result: any;
+      const wrapper = mount(defineComponent({
+        setup() {
+          result = useFetch('/api/stream-unmount', {}, { stream: 'text' });
+          return () => null;
+        },
+      }));
+      await jest.advanceTimersByTimeAsync(0);
+      stream.push('first');
+      await jest.advanceTimersByTimeAsync(0);
+
+      wrapper.unmount();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(result.chunks.value).toEqual(['first']);
+      expect(result.data.value).toBeNull();
+      expect(result.error.value).toBeNull();
+      expect((ofetch as any).raw.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+  });
+
+  describe('timeout and error classification', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    // ofetch mock yang reject dengan AbortError saat signal di-abort
+    const pendingUntilAbort = (_url: string, options: any) =>
+      new Promise((_resolve, reject) => {
+        options.signal.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+      });
+
+    it('should abort the request and report a timeout error', async () => {
+      (ofetch as any).mockImplementationOnce(pendingUntilAbort);
+
+      const { data, error, loading } = useFetch('/api/slow', {}, { timeout: 5000 });
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(error.value).toBeNull();
+      expect(loading.value).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect((ofetch as any).mock.calls[0][1].signal.aborted).toBe(true);
+      expect(error.value).toBeInstanceOf(FetchError);
+      expect(error.value?.kind).toBe('timeout');
+      expect(error.value?.url).toBe('/api/slow');
+      expect(data.value).toBeNull();
+      expect(loading.value).toBe(false);
+    });
+
+    it('should not report a timeout when the request finishes in time', async () => {
+      (ofetch as any).mockResolvedValueOnce({ ok: true });
+
+      const { data, error } = useFetch('/api/fast', {}, { timeout: 5000 });
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(data.value).toEqual({ ok: true });
+      expect(error.value).toBeNull();
+    });
+
+    it('should apply the timeout across retries', async () => {
+      (ofetch as any)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockImplementationOnce(pendingUntilAbort);
+
+      const { error, attempt } = useFetch('/api/slow-retry', {}, { retry: 3, retryDelay: 1000, timeout: 3000 });
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(attempt.value).toBe(1);
+      expect(error.value?.kind).toBe('timeout');
+    });
+
+    it('should classify HTTP errors with status and data', async () => {
+      const failure = Object.assign(new Error('[GET] "/api/missing": 404 Not Found'), {
+        status: 404,
+        data: { message: 'Not found' }
+      });
+      (ofetch as any).mockRejectedValueOnce(failure);
+
+      const { error } = useFetch('/api/missing');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(error.value).toMatchObject({
+        kind: 'http',
+        status: 404,
+        data: { message: 'Not found' },
+        url: '/api/missing',
+        message: failure.message
+      });
+      expect(error.value?.cause).toBe(failure);
+    });
+
+    it('should classify parse errors', async () => {
+      (ofetch as any).mockRejectedValueOnce(new SyntaxError('Unexpected token <'));
+
+      const { error } = useFetch('/api/html');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(error.value?.kind).toBe('parse');
+    });
+
+    it('should keep ValidationError as a parse error with url', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 'x' });
+
+      const { error } = useFetch('/api/user', {}, { validate: () => false });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(error.value).toBeInstanceOf(ValidationError);
+      expect(error.value).toBeInstanceOf(FetchError);
+      expect(error.value?.kind).toBe('parse');
+      expect(error.value?.url).toBe('/api/user');
+    });
+  });
+
+  describe('global config', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    // Mount component yang memanggil useFetch, dengan plugin app
+    const mountWithPlugin = (plugin: any, setup: () => any, pluginOptions?: any) => {
+      let result: any;
+      const wrapper = mount(defineComponent({
+        setup() {
+          result = setup();
+          return () => null;
+        }
+      }), { global: { plugins: [pluginOptions ? [plugin, pluginOptions] : plugin] } });
+      return { wrapper, result };
+    };
+
+    it('should apply baseURL, headers and interceptors from createFetchConfig', async () => {
+      const onRequest = jest.fn<(context: any) => void>();
+      const onResponseError = jest.fn<(context: any) => void>();
+      (ofetch as any).mockResolvedValueOnce({ ok: true });
+
+      const plugin = createFetchConfig({
+        baseURL: 'https://api.example.com',
+        headers: { Accept: 'application/json', 'X-Client': 'web' },
+        onRequest,
+        onResponseError
+      });
+      const { result } = mountWithPlugin(plugin, () =>
+        useFetch('/users', { headers: { 'x-client': 'admin' } })
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      const [url, options] = (ofetch as any).mock.calls[0];
+      expect(url).toBe('/users');
+      expect(options).toMatchObject({ baseURL: 'https://api.example.com', onRequest, onResponseError });
+      const headers = new Headers(options.headers);
+      expect(headers.get('accept')).toBe('application/json');
+      expect(headers.get('x-client')).toBe('admin');
+      expect(result.data.value).toEqual({ ok: true });
+    });
+
+    it('should use default cacheTime and retry policy, overridable per call', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ id: 1 })
+        .mockResolvedValueOnce({ id: 2 });
+
+      const plugin = createFetchConfig({ cacheTime: 60000, retry: 1, retryDelay: 10 });
+      const { result: first } = mountWithPlugin(plugin, () => useFetch('/api/defaults', {}, { storage }));
+      await jest.advanceTimersByTimeAsync(10);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(first.attempt.value).toBe(1);
+      expect(await storage.get('GET:/api/defaults')).toMatchObject({ data: { id: 1 } });
+
+      const { result: second } = mountWithPlugin(plugin, () =>
+        useFetch('/api/defaults', {}, { storage, cacheTime: 0 })
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(second.data.value).toEqual({ id: 2 });
+    });
+
+    it('should let per-call options override baseURL and interceptors', async () => {
+      const globalHook = jest.fn<(context: any) => void>();
+      const localHook = jest.fn<(context: any) => void>();
+      (ofetch as any).mockResolvedValueOnce({});
+
+      mountWithPlugin(createFetchConfig({ baseURL: 'https://a.example.com', onResponse: globalHook }), () =>
+        useFetch('/items', { baseURL: 'https://b.example.com', onResponse: localHook })
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      const options = (ofetch as any).mock.calls[0][1];
+      expect(options.baseURL).toBe('https://b.example.com');
+      expect(options.onResponse).toBe(localHook);
+    });
+
+    it('should read the config from app.use(vue3Utils, { fetch })', async () => {
+      (ofetch as any).mockResolvedValueOnce({});
+
+      const { wrapper } = mountWithPlugin(vue3Utils, () => useFetch('/ping'), {
+        fetch: { baseURL: 'https://api.example.com', headers: { Authorization: 'Bearer token' } }
+      });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((ofetch as any).mock.calls[0][1]).toMatchObject({
+        baseURL: 'https://api.example.com',
+        headers: { Authorization: 'Bearer token' }
+      });
+      expect(wrapper.vm.$.appContext.provides[FETCH_CONFIG_KEY as any]).toBeDefined();
+    });
+
+    it('should ignore the global config outside a component', async () => {
+      (ofetch as any).mockResolvedValueOnce({});
+
+      useFetch('/plain');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((ofetch as any).mock.calls[0][1].baseURL).toBeUndefined();
+    });
+  });
+
+  describe('enabled', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should not fetch while disabled and fetch once enabled', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 });
+      const enabled = ref(false);
+
+      const { data, loading } = useFetch('/api/conditional', {}, { enabled });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(loading.value).toBe(false);
+
+      enabled.value = true;
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(data.value).toEqual({ id: 1 });
+    });
+
+    it('should support dependent queries without resolving the url early', async () => {
+      (ofetch as any)
+        .mockResolvedValueOnce({ id: 7, orgId: 3 })
+        .mockResolvedValueOnce({ name: 'Acme' });
+
+      const user = useFetch<{ id: number; orgId: number }>('/api/me');
+      const org = useFetch(
+        () => `/api/orgs/${user.data.value!.orgId}`,
+        {},
+        { enabled: () => Boolean(user.data.value) }
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((ofetch as any).mock.calls.map((call: any[]) => call[0])).toEqual(['/api/me', '/api/orgs/3']);
+      expect(org.data.value).toEqual({ name: 'Acme' });
+    });
+
+    it('should not refetch a dependent query when the parent data is replaced with the same key', async () => {
+      (ofetch as any)
+        .mockResolvedValueOnce({ id: 7, orgId: 3 })
+        .mockResolvedValueOnce({ name: 'Acme' })
+        .mockResolvedValueOnce({ id: 7, orgId: 3, name: 'Updated' });
+
+      const user = useFetch<{ id: number; orgId: number }>('/api/me-refetch');
+      useFetch(
+        () => `/api/orgs/${user.data.value!.orgId}`,
+        {},
+        { enabled: () => Boolean(user.data.value) }
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(0);
+
+      await user.refetch();
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((ofetch as any).mock.calls.map((call: any[]) => call[0])).toEqual(
+        ['/api/me-refetch', '/api/orgs/3', '/api/me-refetch']
+      );
+    });
+
+    it('should fetch again when enabled turns false then true', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+      const enabled = ref(true);
+
+      useFetch('/api/toggle-enabled', {}, { enabled });
+      await jest.advanceTimersByTimeAsync(0);
+
+      enabled.value = false;
+      await nextTick();
+      enabled.value = true;
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore refetch while disabled and respect immediate: false', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+      const enabled = ref(false);
+
+      const { refetch } = useFetch('/api/manual', {}, { enabled, immediate: false });
+      expect(await refetch()).toBeNull();
+
+      enabled.value = true;
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).not.toHaveBeenCalled();
+
+      expect(await refetch()).toEqual({ ok: true });
+      expect(ofetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use fresh cache when enabled turns truthy', async () => {
+      const storage = createMemoryStorage();
+      await storage.set('GET:/api/cached-enabled', {
+        data: { cached: true },
+        timestamp: Date.now(),
+        expiresAt: Date.now() + 60000
+      });
+      const enabled = ref(false);
+
+      const { data } = useFetch('/api/cached-enabled', {}, { enabled, cacheTime: 60000, storage });
+      enabled.value = true;
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(data.value).toEqual({ cached: true });
+      expect(ofetch).not.toHaveBeenCalled();
+    });
+
+    it('should pause polling while disabled', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+      const enabled = ref(true);
+
+      useFetch('/api/poll-enabled', {}, { enabled, refetchInterval: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+
+      enabled.value = false;
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(ofetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('offline queue', () => {
+    let queue: ReturnType<typeof createOfflineQueue>;
+
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+      queue = createOfflineQueue({ storage: 'memory', autoReplay: false });
+    });
+
+    it('should queue non-GET requests while offline without calling the network', async () => {
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      const { data, error, queued, loading } = useFetch(
+        '/api/orders',
+        { method: 'POST', body: { id: 1 } },
+        { offlineQueue: queue }
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(queued.value).toBe(true);
+      expect(data.value).toBeNull();
+      expect(error.value).toBeNull();
+      expect(loading.value).toBe(false);
+      expect(queue.pendingCount.value).toBe(1);
+      expect((await queue.getPending())[0]).toMatchObject({
+        url: '/api/orders',
+        options: { method: 'POST', body: { id: 1 } }
+      });
+    });
+
+    it('should queue non-GET requests that fail with a network error', async () => {
+      (ofetch as any).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const { error, queued } = useFetch('/api/orders/1', { method: 'PUT', body: { n: 1 } }, { offlineQueue: queue });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(queued.value).toBe(true);
+      expect(error.value).toBeNull();
+      expect(queue.pendingCount.value).toBe(1);
+    });
+
+    it('should report an error instead of queueing a body that cannot be stored', async () => {
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const body = new FormData();
+
+      const { error, queued } = useFetch('/api/upload', { method: 'POST', body }, { offlineQueue: queue });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(queued.value).toBe(false);
+      expect(error.value).toMatchObject({ kind: 'network', url: '/api/upload' });
+      expect((error.value?.cause as Error).message).toContain('FormData');
+      expect(queue.pendingCount.value).toBe(0);
+    });
+
+    it('should report HTTP errors instead of queueing them', async () => {
+      (ofetch as any).mockRejectedValueOnce(Object.assign(new Error('Bad Request'), { status: 400 }));
+
+      const { error, queued } = useFetch('/api/orders', { method: 'POST' }, { offlineQueue: queue });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(queued.value).toBe(false);
+      expect(error.value?.kind).toBe('http');
+      expect(queue.pendingCount.value).toBe(0);
+    });
+
+    it('should report transform errors as parse errors instead of queueing the request', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 });
+      const transform = () => {
+        throw new TypeError("Cannot read properties of undefined (reading 'items')");
+      };
+
+      const { error, queued } = useFetch('/api/orders', { method: 'POST' }, { offlineQueue: queue, transform });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(queued.value).toBe(false);
+      expect(error.value).toMatchObject({ kind: 'parse', data: { id: 1 }, url: '/api/orders' });
+      expect(error.value?.cause).toBeInstanceOf(TypeError);
+      expect(queue.pendingCount.value).toBe(0);
+    });
+
+    it('should report select errors as parse errors', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 });
+      const select = () => {
+        throw new TypeError('select failed');
+      };
+
+      const { error, queued } = useFetch('/api/orders', { method: 'POST' }, { offlineQueue: queue, select });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(queued.value).toBe(false);
+      expect(error.value?.kind).toBe('parse');
+      expect(queue.pendingCount.value).toBe(0);
+    });
+
+    it('should never queue GET requests', async () => {
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      (ofetch as any).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const { error, queued } = useFetch('/api/orders', {}, { offlineQueue: queue });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+      expect(queued.value).toBe(false);
+      expect(error.value?.kind).toBe('network');
+    });
+  });
+
   describe('abort controller', () => {
     it('should cancel previous request when new request is made', async () => {
       const mockData1 = { id: 1 };
@@ -310,7 +1846,131 @@ describe('useFetch', () => {
       await jest.runAllTimersAsync();
       await nextTick();
 
-      expect(error.value).toBe(networkError);
+      expect(error.value?.cause).toBe(networkError);
+      expect(error.value?.kind).toBe('network');
+    });
+  });
+
+  describe('reactive sources', () => {
+    beforeEach(() => {
+      (ofetch as any).mockReset();
+    });
+
+    it('should refetch when url ref changes', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce({ id: 2 });
+
+      const id = ref(1);
+      const { data } = useFetch(() => `/api/users/${id.value}`);
+
+      await jest.runAllTimersAsync();
+      expect(data.value).toEqual({ id: 1 });
+
+      id.value = 2;
+      await nextTick();
+      await jest.runAllTimersAsync();
+
+      expect(ofetch).toHaveBeenLastCalledWith('/api/users/2', expect.any(Object));
+      expect(data.value).toEqual({ id: 2 });
+    });
+
+    it('should resolve reactive query and body before calling ofetch', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+
+      const page = ref(1);
+      const body = ref({ name: 'a' });
+      useFetch('/api/search', { method: 'POST', query: () => ({ page: page.value }), body });
+
+      await jest.runAllTimersAsync();
+      expect(ofetch).toHaveBeenLastCalledWith(
+        '/api/search',
+        expect.objectContaining({ query: { page: 1 }, body: { name: 'a' } })
+      );
+
+      page.value = 2;
+      await nextTick();
+      await jest.runAllTimersAsync();
+      expect(ofetch).toHaveBeenLastCalledWith(
+        '/api/search',
+        expect.objectContaining({ query: { page: 2 } })
+      );
+
+      body.value.name = 'b';
+      await nextTick();
+      await jest.runAllTimersAsync();
+      expect(ofetch).toHaveBeenLastCalledWith(
+        '/api/search',
+        expect.objectContaining({ body: { name: 'b' } })
+      );
+      expect(ofetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should abort in-flight request when source changes', async () => {
+      let firstSignal: AbortSignal | undefined;
+      (ofetch as any)
+        .mockImplementationOnce((_url: string, opts: any) => {
+          firstSignal = opts.signal;
+          return new Promise(() => {});
+        })
+        .mockResolvedValueOnce({ id: 2 });
+
+      const id = ref(1);
+      const { data, loading } = useFetch(() => `/api/slow/${id.value}`);
+
+      id.value = 2;
+      await nextTick();
+      await jest.runAllTimersAsync();
+
+      expect(firstSignal?.aborted).toBe(true);
+      expect(data.value).toEqual({ id: 2 });
+      expect(loading.value).toBe(false);
+    });
+
+    it('should not refetch when a dependency changes but the resolved url stays the same', async () => {
+      (ofetch as any).mockResolvedValue({ name: 'Acme' });
+
+      const user = ref({ id: 7, orgId: 1 });
+      useFetch(() => `/api/orgs/${user.value.orgId}`);
+      await jest.advanceTimersByTimeAsync(0);
+
+      user.value = { id: 7, orgId: 1 };
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use cache per resolved url', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce({ id: 2 });
+
+      const id = ref(1);
+      const { data } = useFetch(() => `/api/reactive-cache/${id.value}`, {}, { cacheTime: 5000 });
+      await jest.advanceTimersByTimeAsync(10);
+
+      id.value = 2;
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(10);
+      expect(data.value).toEqual({ id: 2 });
+
+      id.value = 1;
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(10);
+      expect(data.value).toEqual({ id: 1 });
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not auto refetch on change when immediate is false', async () => {
+      (ofetch as any).mockResolvedValue({ ok: true });
+
+      const id = ref(1);
+      const { refetch } = useFetch(() => `/api/manual/${id.value}`, {}, { immediate: false });
+
+      id.value = 2;
+      await nextTick();
+      await jest.runAllTimersAsync();
+      expect(ofetch).not.toHaveBeenCalled();
+
+      await refetch();
+      expect(ofetch).toHaveBeenCalledWith('/api/manual/2', expect.any(Object));
     });
   });
 
@@ -352,7 +2012,7 @@ describe('useFetch', () => {
       await jest.runAllTimersAsync();
       await nextTick();
 
-      expect(error.value).toBe(mockError);
+      expect(error.value?.cause).toBe(mockError);
 
       // Successful retry
       const mockData = { success: true };
@@ -41,6 +41,8 @@ describe('useFetchServer', () => {
     mockFetchManager = {
       fetch: mockFetch,
       queuedRefreshToken: mockQueuedRefreshToken,
+      clearTokens: jest.fn(),
+      use: jest.fn(),
       refreshPromise: null,
       isRefreshing: false
     };
@@ -207,29 +209,22 @@ describe('useFetchServer', () => {
   });
 
   describe('clearTokens', () => {
-    it.skip('should use default clearTokens implementation', () => {
-      // This test is skipped because default clearTokens uses an inline arrow function
-      // which makes it difficult to test in isolation without actually clearing localStorage
-      // The functionality is verified through custom clearTokens test below
+    it('should delegate to fetchManager.clearTokens', () => {
       const { clearTokens } = useFetchServer('https://api.example.com');
 
       clearTokens();
 
-      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('accessToken');
-      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('refreshToken');
-      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('refreshTokenExpiration');
+      expect(mockFetchManager.clearTokens).toHaveBeenCalled();
     });
 
-    it('should use custom clearTokens from options', () => {
-      const customClearTokens = jest.fn();
+    it('should pass custom clearTokens to FetchManager', () => {
+      const customClearTokens = jest.fn<() => void>();
 
-      const { clearTokens } = useFetchServer('https://api.example.com', {
+      useFetchServer('https://api.example.com', {
         clearTokens: customClearTokens
       });
 
-      clearTokens();
-
-      expect(customClearTokens).toHaveBeenCalled();
+      expect(FetchManager).toHaveBeenCalledWith('https://api.example.com', { clearTokens: customClearTokens });
     });
 
     it('should handle missing localStorage gracefully', () => {
@@ -246,6 +241,19 @@ describe('useFetchServer', () => {
     });
   });
 
+  describe('interceptors', () => {
+    it('should delegate use to fetchManager and return its eject function', () => {
+      const eject = jest.fn();
+      mockFetchManager.use.mockReturnValue(eject);
+      const interceptor = { onRequest: jest.fn<(context: any) => void>() };
+
+      const { use } = useFetchServer('https://api.example.com');
+
+      expect(use(interceptor)).toBe(eject);
+      expect(mockFetchManager.use).toHaveBeenCalledWith(interceptor);
+    });
+  });
+
   describe('cleanup on unmount', () => {
     it('should cleanup refresh state on unmount', () => {
       // This test verifies that onUnmounted is properly set up
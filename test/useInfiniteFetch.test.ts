@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { useInfiniteFetch } from '../src/wrapper/useInfiniteFetch.js';
+import { createMemoryStorage } from '../src/core/cacheStorage.js';
+import { invalidateQueries } from '../src/core/queryClient.js';
+import { nextTick, ref, defineComponent } from 'vue';
+import { mount } from '@vue/test-utils';
+
+// Mock ofetch
+jest.mock('ofetch', () => ({
+  ofetch: jest.fn()
+}));
+
+import { ofetch } from 'ofetch';
+
+// Halaman 1..3, masing-masing 2 item
+const pageResponse = (page: number) => ({
+  items: [page * 10 + 1, page * 10 + 2],
+  nextPage: page < 3 ? page + 1 : null,
+});
+
+const getNextPageParam = (lastPage: any) => lastPage.nextPage;
+
+describe('useInfiniteFetch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (ofetch as any).mockReset();
+    (ofetch as any).mockImplementation((_url: string, opts: any) => Promise.resolve(pageResponse(opts.query.page)));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('pagination', () => {
+    it('should fetch the first page immediately', async () => {
+      const { pages, pageParams, loading, hasNextPage } = useInfiniteFetch('/api/list', { query: { limit: 2 } }, { getNextPageParam });
+
+      expect(loading.value).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledWith('/api/list', expect.objectContaining({ query: { limit: 2, page: 1 } }));
+      expect(pages.value).toEqual([pageResponse(1)]);
+      expect(pageParams.value).toEqual([1]);
+      expect(loading.value).toBe(false);
+      expect(hasNextPage.value).toBe(true);
+    });
+
+    it('should append next pages until getNextPageParam returns null', async () => {
+      const { pages, pageParams, hasNextPage, isFetchingNextPage, fetchNextPage } =
+        useInfiniteFetch('/api/list-all', {}, { getNextPageParam });
+      await jest.advanceTimersByTimeAsync(0);
+
+      const next = fetchNextPage();
+      expect(isFetchingNextPage.value).toBe(true);
+      await next;
+      expect(isFetchingNextPage.value).toBe(false);
+
+      await fetchNextPage();
+
+      expect(pages.value).toEqual([pageResponse(1), pageResponse(2), pageResponse(3)]);
+      expect(pageParams.value).toEqual([1, 2, 3]);
+      expect(hasNextPage.value).toBe(false);
+
+      expect(await fetchNextPage()).toBeNull();
+      expect(ofetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should support cursor params with custom pageParamKey', async () => {
+      (ofetch as any).mockImplementation((_url: string, opts: any) =>
+        Promise.resolve(opts.query.cursor ? { items: [2], next: null } : { items: [1], next: 'abc' }));
+      const { pages, fetchNextPage } = useInfiniteFetch('/api/feed', {}, {
+        initialPageParam: null,
+        pageParamKey: 'cursor',
+        getNextPageParam: (lastPage: any) => lastPage.next,
+      });
+      await jest.advanceTimersByTimeAsync(0);
+
+      await fetchNextPage();
+
+      expect((ofetch as any).mock.calls[1][1].query).toEqual({ cursor: 'abc' });
+      expect(pages.value.map((page: any) => page.items)).toEqual([[1], [2]]);
+    });
+
+    it('should ignore fetchNextPage while a page is loading', async () => {
+      const { fetchNextPage } = useInfiniteFetch('/api/list-busy', {}, { getNextPageParam });
+
+      expect(await fetchNextPage()).toBeNull();
+      await jest.advanceTimersByTimeAsync(0);
+
+      fetchNextPage();
+      fetchNextPage();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fetch automatically when immediate is false', async () => {
+      const { pages, hasNextPage, refetch } = useInfiniteFetch('/api/list-manual', {}, { getNextPageParam, immediate: false });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(hasNextPage.value).toBe(false);
+
+      await refetch();
+      expect(pages.value).toEqual([pageResponse(1)]);
+    });
+
+    it('should set error when a page fails', async () => {
+      const { error, pages, fetchNextPage } = useInfiniteFetch('/api/list-error', {}, { getNextPageParam });
+      await jest.advanceTimersByTimeAsync(0);
+
+      const failure = new Error('Page failed');
+      (ofetch as any).mockRejectedValueOnce(failure);
+      await fetchNextPage();
+
+      expect(error.value).toBe(failure);
+      expect(pages.value).toHaveLength(1);
+    });
+
+    it('should throw when getNextPageParam is missing', () => {
+      expect(() => useInfiniteFetch('/api/list', {}, {} as any)).toThrow(
+        '[useInfiniteFetch] getNextPageParam wajib berupa function'
+      );
+      expect(ofetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reactive sources', () => {
+    it('should reset to the first page when query changes', async () => {
+      const filter = ref('a');
+      const { pages, pageParams, fetchNextPage } = useInfiniteFetch(
+        '/api/list-filter',
+        { query: () => ({ filter: filter.value }) },
+        { getNextPageParam }
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      await fetchNextPage();
+      expect(pages.value).toHaveLength(2);
+
+      filter.value = 'b';
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((ofetch as any).mock.calls[2][1].query).toEqual({ filter: 'b', page: 1 });
+      expect(pages.value).toEqual([pageResponse(1)]);
+      expect(pageParams.value).toEqual([1]);
+    });
+
+    it('should keep loaded pages when a dependency changes to an equal query', async () => {
+      const filters = ref({ filter: 'a' });
+      const { pages, fetchNextPage } = useInfiniteFetch(
+        '/api/list-same-filter',
+        { query: () => ({ filter: filters.value.filter }) },
+        { getNextPageParam }
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      await fetchNextPage();
+
+      filters.value = { filter: 'a' };
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(pages.value).toHaveLength(2);
+    });
+
+    it('should abort in-flight next page on reset', async () => {
+      const url = ref('/api/list-a');
+      const { pages, fetchNextPage } = useInfiniteFetch(url, {}, { getNextPageParam });
+      await jest.advanceTimersByTimeAsync(0);
+
+      let signal: AbortSignal | undefined;
+      (ofetch as any).mockImplementationOnce((_url: string, opts: any) => {
+        signal = opts.signal;
+        return new Promise(() => {});
+      });
+      fetchNextPage();
+
+      url.value = '/api/list-b';
+      await nextTick();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(signal!.aborted).toBe(true);
+      expect(pages.value).toEqual([pageResponse(1)]);
+    });
+  });
+
+  describe('cache', () => {
+    it('should cache all pages under one key', async () => {
+      const storage = createMemoryStorage();
+      const first = useInfiniteFetch('/api/list-cache', {}, { getNextPageParam, cacheTime: 5000, storage });
+      await jest.advanceTimersByTimeAsync(0);
+      await first.fetchNextPage();
+
+      expect(storage.keys()).toEqual(['infinite:GET:/api/list-cache']);
+
+      const second = useInfiniteFetch('/api/list-cache', {}, { getNextPageParam, cacheTime: 5000, storage });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ofetch).toHaveBeenCalledTimes(2);
+      expect(second.pages.value).toEqual([pageResponse(1), pageResponse(2)]);
+      expect(second.pageParams.value).toEqual([1, 2]);
+    });
+
+    it('should refetch from the first page bypassing cache', async () => {
+      const storage = createMemoryStorage();
+      const { pages, fetchNextPage, refetch, clearCache } = useInfiniteFetch('/api/list-refetch', {}, {
+        getNextPageParam,
+        cacheTime: 5000,
+        storage,
+      });
+      await jest.advanceTimersByTimeAsync(0);
+      await fetchNextPage();
+
+      await refetch();
+      expect(pages.value).toEqual([pageResponse(1)]);
+
+      clearCache();
+      expect(storage.keys()).toEqual([]);
+    });
+
+    it('should refetch mounted instances on invalidation', async () => {
+      const storage = createMemoryStorage();
+      let result: any;
+      const wrapper = mount(defineComponent({
+        setup() {
+          result = useInfiniteFetch('/api/list-invalidate', {}, { getNextPageParam, cacheTime: 5000, storage, tags: ['list'] });
+          return () => null;
+        },
+      }));
+      await jest.advanceTimersByTimeAsync(0);
+      await result.fetchNextPage();
+
+      await invalidateQueries({ tags: ['list'] }, { storage });
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(result.pages.value).toEqual([pageResponse(1)]);
+
+      wrapper.unmount();
+      await invalidateQueries({ tags: ['list'] }, { storage });
+      expect(ofetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { useMutation } from '../src/wrapper/useMutation.js';
+import { useFetch } from '../src/wrapper/useFetch.js';
+import { createMemoryStorage } from '../src/core/cacheStorage.js';
+import { getQueryData, setQueryData } from '../src/core/queryClient.js';
+import { ref } from 'vue';
+
+// Mock ofetch
+jest.mock('ofetch', () => ({
+  ofetch: jest.fn()
+}));
+
+import { ofetch } from 'ofetch';
+
+describe('useMutation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (ofetch as any).mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('basic functionality', () => {
+    it('should not send a request until mutate is called', () => {
+      const { data, error, loading } = useMutation('/api/todos');
+
+      expect(ofetch).not.toHaveBeenCalled();
+      expect(data.value).toBeNull();
+      expect(error.value).toBeNull();
+      expect(loading.value).toBe(false);
+    });
+
+    it('should POST variables as body by default', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1, title: 'A' });
+      const { data, loading, mutate } = useMutation('/api/todos', { headers: { 'X-Test': '1' } });
+
+      const promise = mutate({ title: 'A' });
+      expect(loading.value).toBe(true);
+
+      const result = await promise;
+
+      expect(ofetch).toHaveBeenCalledWith('/api/todos', {
+        method: 'POST',
+        headers: { 'X-Test': '1' },
+        body: { title: 'A' },
+      });
+      expect(result).toEqual({ id: 1, title: 'A' });
+      expect(data.value).toEqual({ id: 1, title: 'A' });
+      expect(loading.value).toBe(false);
+    });
+
+    it('should build url and body from variables', async () => {
+      (ofetch as any).mockResolvedValueOnce({});
+      const { mutate } = useMutation((id: number) => `/api/todos/${id}`, {
+        method: 'DELETE',
+        body: () => undefined,
+      });
+
+      await mutate(5);
+
+      expect(ofetch).toHaveBeenCalledWith('/api/todos/5', { method: 'DELETE', body: undefined });
+    });
+
+    it('should accept ref url', async () => {
+      (ofetch as any).mockResolvedValueOnce({});
+      const url = ref('/api/a');
+      const { mutate } = useMutation(url);
+
+      url.value = '/api/b';
+      await mutate();
+
+      expect((ofetch as any).mock.calls[0][0]).toBe('/api/b');
+    });
+
+    it('should set error and resolve null on failure', async () => {
+      const failure = new Error('Bad Request');
+      (ofetch as any).mockRejectedValueOnce(failure);
+      const { data, error, loading, mutate } = useMutation('/api/todos');
+
+      const result = await mutate({ title: '' });
+
+      expect(result).toBeNull();
+      expect(data.value).toBeNull();
+      expect(error.value).toBe(failure);
+      expect(loading.value).toBe(false);
+    });
+
+    it('should reset data and error', async () => {
+      (ofetch as any).mockRejectedValueOnce(new Error('fail'));
+      const { error, mutate, reset } = useMutation('/api/todos');
+
+      await mutate({});
+      reset();
+
+      expect(error.value).toBeNull();
+    });
+
+    it('should keep state of the latest mutation', async () => {
+      let resolveFirst: (value: any) => void = () => {};
+      (ofetch as any)
+        .mockImplementationOnce(() => new Promise((resolve) => { resolveFirst = resolve; }))
+        .mockResolvedValueOnce({ id: 2 });
+      const { data, loading, mutate } = useMutation('/api/todos');
+
+      const first = mutate({ id: 1 });
+      await mutate({ id: 2 });
+      resolveFirst({ id: 1 });
+
+      expect(await first).toEqual({ id: 1 });
+      expect(data.value).toEqual({ id: 2 });
+      expect(loading.value).toBe(false);
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should call hooks with variables and context on success', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 });
+      const calls: string[] = [];
+      const onMutate = jest.fn((_variables: any) => {
+        calls.push('mutate');
+        return { snapshot: true };
+      });
+      const onSuccess = jest.fn((_data: any, _variables: any, _context: any) => { calls.push('success'); });
+      const onError = jest.fn();
+      const onSettled = jest.fn((_data: any, _error: any, _variables: any, _context: any) => { calls.push('settled'); });
+      const { mutate } = useMutation('/api/todos', {}, { onMutate, onSuccess, onError, onSettled });
+
+      await mutate({ title: 'A' });
+
+      expect(calls).toEqual(['mutate', 'success', 'settled']);
+      expect(onMutate).toHaveBeenCalledWith({ title: 'A' });
+      expect(onSuccess).toHaveBeenCalledWith({ id: 1 }, { title: 'A' }, { snapshot: true });
+      expect(onSettled).toHaveBeenCalledWith({ id: 1 }, null, { title: 'A' }, { snapshot: true });
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should call onError and onSettled on failure', async () => {
+      const failure = new Error('fail');
+      (ofetch as any).mockRejectedValueOnce(failure);
+      const onError = jest.fn();
+      const onSettled = jest.fn();
+      const { mutate } = useMutation('/api/todos', {}, {
+        onMutate: () => 'ctx',
+        onError,
+        onSettled,
+      });
+
+      await mutate(1);
+
+      expect(onError).toHaveBeenCalledWith(failure, 1, 'ctx');
+      expect(onSettled).toHaveBeenCalledWith(null, failure, 1, 'ctx');
+    });
+
+    it('should not roll back when onSuccess throws after the request succeeded', async () => {
+      (ofetch as any).mockResolvedValueOnce({ id: 1 });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const hookError = new Error('toast failed');
+      const onError = jest.fn();
+      const onSettled = jest.fn();
+      const { mutate, data, error } = useMutation('/api/todos', {}, {
+        onSuccess: () => {
+          throw hookError;
+        },
+        onError,
+        onSettled,
+      });
+
+      await expect(mutate({ title: 'A' })).resolves.toEqual({ id: 1 });
+
+      expect(data.value).toEqual({ id: 1 });
+      expect(error.value).toBeNull();
+      expect(onError).not.toHaveBeenCalled();
+      expect(onSettled).toHaveBeenCalledWith({ id: 1 }, null, { title: 'A' }, undefined);
+      expect(consoleError).toHaveBeenCalledWith(expect.any(String), hookError);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('optimistic updates', () => {
+    it('should update mounted useFetch and roll back on error', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValueOnce([{ id: 1 }]);
+      const { data: todos } = useFetch('/api/opt-todos', {}, { cacheTime: 5000, storage });
+      await jest.advanceTimersByTimeAsync(0);
+
+      (ofetch as any).mockImplementationOnce(async () => {
+        // Optimistic data sudah tampil saat request berjalan
+        expect(todos.value).toEqual([{ id: 1 }, { id: 2 }]);
+        throw new Error('Server error');
+      });
+
+      const { mutate, error } = useMutation('/api/opt-todos', {}, {
+        onMutate: async (todo: any) => {
+          const previous = await getQueryData('GET:/api/opt-todos', { storage });
+          await setQueryData('GET:/api/opt-todos', (list: any[] = []) => [...list, todo], { storage });
+          return { previous };
+        },
+        onError: (_error: unknown, _todo: unknown, context: any) =>
+          setQueryData('GET:/api/opt-todos', context.previous, { storage }),
+      });
+
+      await mutate({ id: 2 });
+
+      expect(error.value).toEqual(new Error('Server error'));
+      expect(todos.value).toEqual([{ id: 1 }]);
+      expect(storage.peek('GET:/api/opt-todos')!.data).toEqual([{ id: 1 }]);
+    });
+
+    it('should invalidate matching queries after success', async () => {
+      const storage = createMemoryStorage();
+      (ofetch as any).mockResolvedValueOnce([{ id: 1 }]);
+      const { data: todos } = useFetch('/api/inv-todos', {}, { cacheTime: 5000, storage, tags: ['todos'] });
+      await jest.advanceTimersByTimeAsync(0);
+
+      (ofetch as any)
+        .mockResolvedValueOnce({ id: 2 })
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }]);
+      const { mutate } = useMutation('/api/inv-todos', {}, { invalidate: { tags: ['todos'] }, storage });
+
+      await mutate({ title: 'B' });
+
+      expect(ofetch).toHaveBeenCalledTimes(3);
+      expect(todos.value).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should not invalidate queries when mutation fails', async () => {
+      const storage = createMemoryStorage();
+      storage.set('GET:/api/keep', { data: 1, timestamp: Date.now(), expiresAt: Date.now() + 5000, url: '/api/keep' });
+      (ofetch as any).mockRejectedValueOnce(new Error('fail'));
+      const { mutate } = useMutation('/api/keep', {}, { invalidate: ['/api/keep'], storage });
+
+      await mutate();
+
+      expect(storage.keys()).toEqual(['GET:/api/keep']);
+    });
+  });
+});